@@ -2,9 +2,32 @@ import resolve from '@rollup/plugin-node-resolve';
 import commonjs from '@rollup/plugin-commonjs';
 import typescript from '@rollup/plugin-typescript';
 import terser from '@rollup/plugin-terser';
+import { readFileSync } from 'node:fs';
 
 const production = !process.env.ROLLUP_WATCH;
 
+// SDK stylesheets, in injection order. Imported as strings by the components
+// and also published as dist/kairos-payments.css for styleMode: 'external'.
+const STYLESHEETS = ['src/styles/card-form.css', 'src/styles/pix.css'];
+
+function css({ emit = false } = {}) {
+  return {
+    name: 'kairos-css',
+    transform(code, id) {
+      if (!id.endsWith('.css')) return null;
+      return { code: `export default ${JSON.stringify(code)};`, map: { mappings: '' } };
+    },
+    generateBundle() {
+      if (!emit) return;
+      this.emitFile({
+        type: 'asset',
+        fileName: 'kairos-payments.css',
+        source: STYLESHEETS.map(file => readFileSync(file, 'utf8')).join('\n')
+      });
+    }
+  };
+}
+
 export default [
   // ESM build
   {
@@ -15,10 +38,11 @@ export default [
       sourcemap: true
     },
     plugins: [
+      css({ emit: true }),
       resolve(),
       commonjs(),
       typescript({
-        tsconfig: './tsconfig.json',
+        tsconfig: './tsconfig.build.json',
         declaration: true,
         declarationDir: './dist'
       })
@@ -35,9 +59,10 @@ export default [
       exports: 'named'
     },
     plugins: [
+      css(),
       resolve(),
       commonjs(),
-      typescript({ tsconfig: './tsconfig.json' })
+      typescript({ tsconfig: './tsconfig.build.json' })
     ],
     external: ['react', 'react-dom', 'react/jsx-runtime']
   },
@@ -56,11 +81,28 @@ export default [
       }
     },
     plugins: [
+      css(),
       resolve({ browser: true }),
       commonjs(),
-      typescript({ tsconfig: './tsconfig.json' }),
+      typescript({ tsconfig: './tsconfig.build.json' }),
       production && terser()
     ],
     external: ['react', 'react-dom', 'react/jsx-runtime']
+  },
+  // Hosted field page script (served from the hosted fields origin)
+  {
+    input: 'src/hosted/frame.ts',
+    output: {
+      file: 'dist/kairos-hosted-field.min.js',
+      format: 'iife',
+      name: 'KairosHostedField',
+      sourcemap: true
+    },
+    plugins: [
+      resolve({ browser: true }),
+      commonjs(),
+      typescript({ tsconfig: './tsconfig.build.json' }),
+      production && terser()
+    ]
   }
 ];
@@ -0,0 +1,119 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { KairosEncryptedAdapter } from './KairosEncryptedAdapter';
+import { ErrorCode } from '../core/errorCodes';
+
+const HOSTILE = '<img src=x onerror="alert(1)"><script>alert(2)</script>';
+
+const HOSTILE_MESSAGES = {
+  cardNumberLabel: HOSTILE,
+  expiryLabel: HOSTILE,
+  cvvLabel: HOSTILE,
+  cardholderNameLabel: HOSTILE,
+  cardholderNamePlaceholder: HOSTILE,
+  installmentsLabel: HOSTILE,
+  installmentInterestFree: `${HOSTILE} {count}x {amount}`,
+  payButton: HOSTILE,
+  securePaymentTitle: HOSTILE,
+  invalidCardNumber: HOSTILE,
+};
+
+function expectNoMarkup(container: HTMLElement): void {
+  expect(container.querySelector('img, script, [onerror]')).toBeNull();
+}
+
+function fillCard(container: HTMLElement, number: string): void {
+  (container.querySelector('[data-kairos-enc-card-number]') as HTMLInputElement).value = number;
+  (container.querySelector('[data-kairos-enc-expiry]') as HTMLInputElement).value = '12/35';
+  (container.querySelector('[data-kairos-enc-cvv]') as HTMLInputElement).value = '123';
+  (container.querySelector('[data-kairos-enc-name]') as HTMLInputElement).value = 'MARIA SILVA';
+}
+
+async function createAdapter(): Promise<KairosEncryptedAdapter> {
+  const adapter = new KairosEncryptedAdapter();
+  await adapter.init('', { locale: 'en-US', messages: HOSTILE_MESSAGES });
+  return adapter;
+}
+
+afterEach(() => {
+  document.body.replaceChildren();
+});
+
+describe('KairosEncryptedAdapter card form', () => {
+  it('renders hostile labels and installment text as text', async () => {
+    const container = document.body.appendChild(document.createElement('div'));
+    const adapter = await createAdapter();
+
+    const payment = await adapter.createCardPayment(container, { amount: 100, onSubmit: vi.fn() });
+
+    expectNoMarkup(container);
+    const labels = Array.from(container.querySelectorAll('label'));
+    expect(labels).toHaveLength(5);
+    expect(labels.every(label => label.textContent === HOSTILE)).toBe(true);
+    expect((container.querySelector('[data-kairos-enc-name]') as HTMLInputElement).placeholder).toBe(HOSTILE);
+    expect(container.querySelector('[data-kairos-enc-installments] option')?.textContent)
+      .toBe(`${HOSTILE} 1x R$100.00`);
+    expect(container.querySelector('.kairos-enc-security-text strong')?.textContent).toBe(HOSTILE);
+    expect(container.querySelector('[data-kairos-enc-submit]')?.textContent).toBe(`${HOSTILE} R$100.00`);
+
+    payment.unmount();
+    adapter.destroy();
+  });
+
+  it('renders hostile error messages as text', async () => {
+    const container = document.body.appendChild(document.createElement('div'));
+    const adapter = await createAdapter();
+    const payment = await adapter.createCardPayment(container, {
+      amount: 100,
+      onSubmit: vi.fn(),
+      tokenize: async () => {
+        throw new Error(HOSTILE);
+      },
+    });
+    const errorEl = container.querySelector('[data-kairos-enc-error]') as HTMLElement;
+
+    fillCard(container, '4111 1111 1111 1111');
+    await expect(payment.submit()).rejects.toMatchObject({ code: ErrorCode.ENCRYPTION_ERROR, message: HOSTILE });
+    expect(errorEl.textContent).toBe(HOSTILE);
+    expect(errorEl.childElementCount).toBe(0);
+
+    fillCard(container, '4111 1111 1111 1112');
+    await expect(payment.submit()).rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR, field: 'cardNumber' });
+    expect(container.querySelector('[data-kairos-enc-field-error="cardNumber"]')?.textContent).toBe(HOSTILE);
+    expectNoMarkup(container);
+
+    payment.unmount();
+    adapter.destroy();
+  });
+
+  it('gives each form on the page its own logo gradient', async () => {
+    const first = document.body.appendChild(document.createElement('div'));
+    const second = document.body.appendChild(document.createElement('div'));
+    const adapter = await createAdapter();
+
+    await adapter.createCardPayment(first, { amount: 100, onSubmit: vi.fn() });
+    await adapter.createCardPayment(second, { amount: 100, onSubmit: vi.fn() });
+
+    const gradients = Array.from(document.querySelectorAll('linearGradient'), el => el.id);
+    expect(new Set(gradients).size).toBe(2);
+    for (const container of [first, second]) {
+      const id = container.querySelector('linearGradient')?.id;
+      expect(container.querySelector(`[fill="url(#${id})"]`)).not.toBeNull();
+    }
+
+    adapter.destroy();
+  });
+
+  it('rejects amounts in an unknown currency before rendering', async () => {
+    const container = document.body.appendChild(document.createElement('div'));
+    const adapter = await createAdapter();
+
+    await expect(adapter.createCardPayment(container, {
+      amount: { amount: 10000, currency: HOSTILE as any },
+      onSubmit: vi.fn(),
+    })).rejects.toMatchObject({ code: ErrorCode.CONFIGURATION_ERROR });
+    expect(container.childNodes).toHaveLength(0);
+
+    adapter.destroy();
+  });
+});
@@ -3,9 +3,54 @@ import type {
   CardPaymentConfig,
   CardPaymentInstance,
   InstallmentOption,
-  PaymentData
+  PaymentData,
+  InstallmentRules,
+  Money,
+  CardData,
+  PinnedKey,
+  FormState,
+  NetworkConfig
 } from '../types';
-import { encryptCardData } from '../crypto/encryption';
+import { encryptCardData, clearEncryptionCache, getEnvelopeKeyId, isUnknownKeyIdError } from '../crypto/encryption';
+import type { EncryptOptions } from '../crypto/encryption';
+import { KAIROS_ROOT_KEYS } from '../crypto/keyVerification';
+import { getInstallmentPlans, buildInstallmentOption } from '../core/installments';
+import { KairosPaymentError, toPaymentError } from '../core/errors';
+import { ErrorCode } from '../core/errorCodes';
+import { createInstallmentSelect } from '../components/InstallmentSelect';
+import {
+  detectCardBrand,
+  validateCard,
+  validateHolderName,
+  getFirstCardError,
+  normalizeCardData,
+  CARD_FIELDS
+} from '../card/validation';
+import type { CardBrandRule } from '../card/brands';
+import type { CardField, CardValidationCode } from '../card/validation';
+import { CardFormStateTracker } from '../card/formState';
+import { maskCardNumberInput, syncCvvInput, applyMask, formatExpiry, getCardNumberPlaceholder } from '../card/masking';
+import { getMessages, getValidationMessage, DEFAULT_LOCALE } from '../i18n/messages';
+import type { Messages, MessageOverrides } from '../i18n/messages';
+import { formatMoney, formatInstallmentLabel } from '../i18n/format';
+import { toMoney } from '../core/money';
+import { HostedFields } from '../hosted/HostedFields';
+import { HOSTED_FIELDS } from '../hosted/protocol';
+import type { HostedField } from '../hosted/protocol';
+import { injectStylesheet } from '../dom/csp';
+import { h, svg, uniqueId } from '../dom/elements';
+import type { DomSecurityOptions } from '../dom/csp';
+import cardFormCss from '../styles/card-form.css';
+
+/** Default hosted field page (Kairos origin) */
+const DEFAULT_HOSTED_FIELDS_URL = 'https://fields.kairoshub.tech/v1/card-field.html';
+
+/** Error reported for a hosted field that was never filled in */
+const EMPTY_HOSTED_FIELD_ERRORS: Record<HostedField, CardValidationCode> = {
+  cardNumber: 'INVALID_NUMBER',
+  expiry: 'INVALID_EXPIRY',
+  cvv: 'INVALID_CVV',
+};
 
 /**
  * Kairos Encrypted Adapter
@@ -18,6 +63,10 @@ import { encryptCardData } from '../crypto/encryption';
  *
  * Card data never leaves the browser unencrypted.
  *
+ * With `CardPaymentConfig.hostedFields`, the card number, expiry and CVV
+ * inputs are rendered in Kairos-origin iframes instead (see hosted/), so the
+ * merchant page never has access to them.
+ *
  * Styling: Uses CSS custom properties (--kairos-*) so host apps can override
  * colors, fonts, and borders. Falls back to sensible defaults and inherits
  * font-family from the parent element.
@@ -28,11 +77,29 @@ export class KairosEncryptedAdapter implements PspAdapter {
   private apiUrl: string = '';
   private tenantId: string = '';
   private merchantId: string = '';
+  private installmentRules?: InstallmentRules;
+  private locale: string = DEFAULT_LOCALE;
+  private messages: Messages = getMessages();
+  private pinnedKeys: readonly PinnedKey[] = KAIROS_ROOT_KEYS;
+  private hostedFieldsUrl: string = DEFAULT_HOSTED_FIELDS_URL;
+  private domOptions: DomSecurityOptions = {};
+  private network: NetworkConfig = {};
+  /** Aborted on destroy, cancelling key and installment requests in flight */
+  private requests = new AbortController();
 
   async init(_publicKey: string, options?: Record<string, unknown>): Promise<void> {
     this.apiUrl = (options?.apiUrl as string) || 'https://api.kairoshub.tech';
     this.tenantId = (options?.tenantId as string) || '';
     this.merchantId = (options?.merchantId as string) || '';
+    this.locale = (options?.locale as string) || DEFAULT_LOCALE;
+    this.messages = getMessages(this.locale, options?.messages as MessageOverrides | undefined);
+    this.pinnedKeys = (options?.pinnedKeys as PinnedKey[] | undefined) || KAIROS_ROOT_KEYS;
+    this.hostedFieldsUrl = (options?.hostedFieldsUrl as string) || DEFAULT_HOSTED_FIELDS_URL;
+    this.domOptions = {
+      nonce: (options?.cspNonce as string) || undefined,
+      styleMode: options?.styleMode as DomSecurityOptions['styleMode'],
+    };
+    this.network = (options?.network as NetworkConfig | undefined) || {};
   }
 
   async createCardPayment(
@@ -44,15 +111,26 @@ export class KairosEncryptedAdapter implements PspAdapter {
       : container;
 
     if (!containerEl) {
-      throw new Error(`Container not found: ${container}`);
+      throw new KairosPaymentError({ code: ErrorCode.CONFIGURATION_ERROR, message: `Container not found: ${container}` });
     }
 
-    // Inject styles + form HTML
-    containerEl.innerHTML = this.buildFormHtml(config);
+    // For getInstallments(); the form itself loads plans with its own rules
+    this.installmentRules = config.installmentRules;
+    let amount = toMoney(config.amount);
+
+    // Inject styles (once per page) + build the form (text nodes only)
+    injectStylesheet('card-form', cardFormCss, this.domOptions);
+    containerEl.replaceChildren(this.buildForm(config, amount));
+
+    if (config.hostedFields) {
+      return this.createHostedCardPayment(containerEl, config, amount);
+    }
 
     const form = containerEl.querySelector('[data-kairos-enc-form]') as HTMLFormElement;
     const errorEl = containerEl.querySelector('[data-kairos-enc-error]') as HTMLElement;
     const submitBtn = containerEl.querySelector('[data-kairos-enc-submit]') as HTMLButtonElement;
+    // Held by reference: the button's content is swapped out while submitting
+    const amountEl = containerEl.querySelector('[data-kairos-enc-amount]');
     const cardNumberInput = containerEl.querySelector('[data-kairos-enc-card-number]') as HTMLInputElement;
     const expiryInput = containerEl.querySelector('[data-kairos-enc-expiry]') as HTMLInputElement;
     const cvvInput = containerEl.querySelector('[data-kairos-enc-cvv]') as HTMLInputElement;
@@ -60,31 +138,27 @@ export class KairosEncryptedAdapter implements PspAdapter {
     const installmentsSelect = containerEl.querySelector('[data-kairos-enc-installments]') as HTMLSelectElement;
     const brandBadge = containerEl.querySelector('[data-kairos-enc-brand]') as HTMLElement;
 
-    // Card number formatting
+    let brand: CardBrandRule | null = null;
+
+    // Card number formatting (brand-aware grouping, caret preserved)
     cardNumberInput.addEventListener('input', () => {
-      const digits = cardNumberInput.value.replace(/\D/g, '').slice(0, 16);
-      cardNumberInput.value = digits.replace(/(\d{4})(?=\d)/g, '$1 ');
-      // Detect brand
-      const brand = detectCardBrand(digits);
+      brand = maskCardNumberInput(cardNumberInput);
+      cardNumberInput.placeholder = getCardNumberPlaceholder(brand);
+      syncCvvInput(cvvInput, brand);
       if (brandBadge) {
-        brandBadge.textContent = brand ? brand.toUpperCase() : '';
+        brandBadge.textContent = brand ? brand.brand.toUpperCase() : '';
         brandBadge.style.display = brand ? 'block' : 'none';
       }
     });
 
     // Expiry formatting
     expiryInput.addEventListener('input', () => {
-      const digits = expiryInput.value.replace(/\D/g, '').slice(0, 4);
-      if (digits.length >= 3) {
-        expiryInput.value = `${digits.slice(0, 2)}/${digits.slice(2)}`;
-      } else {
-        expiryInput.value = digits;
-      }
+      applyMask(expiryInput, formatExpiry);
     });
 
-    // CVV: digits only
+    // CVV: digits only, length follows the detected brand
     cvvInput.addEventListener('input', () => {
-      cvvInput.value = cvvInput.value.replace(/\D/g, '').slice(0, 3);
+      syncCvvInput(cvvInput, brand);
     });
 
     // Name: uppercase
@@ -92,449 +166,647 @@ export class KairosEncryptedAdapter implements PspAdapter {
       nameInput.value = nameInput.value.toUpperCase();
     });
 
+    // Installments: re-queried when the BIN changes (debounced) or the amount changes
+    const installments = installmentsSelect
+      ? createInstallmentSelect(installmentsSelect, {
+          amount,
+          maxInstallments: config.maxInstallments || 12,
+          loadInstallments: (planAmount, bin) => this.loadInstallments(planAmount, bin, config.installmentRules),
+          formatOption: opt => formatInstallmentLabel(opt, this.messages, this.locale),
+          loadingLabel: this.messages.installmentsLoading,
+          onLoad: config.onInstallmentsLoaded,
+        })
+      : null;
+
+    // Live validation: emit FormState on input, report field errors once visited
+    const fieldInputs: Record<CardField, HTMLInputElement> = {
+      cardNumber: cardNumberInput,
+      expiry: expiryInput,
+      cvv: cvvInput,
+      cardholderName: nameInput,
+    };
+    const formState = new CardFormStateTracker(
+      () => ({
+        number: cardNumberInput.value,
+        expiry: expiryInput.value,
+        cvv: cvvInput.value,
+        holderName: nameInput.value,
+      }),
+      config.onChange,
+      this.messages
+    );
+    const refreshState = () => {
+      const state = formState.emit();
+      this.renderFieldErrors(containerEl, fieldInputs, state.errors);
+      installments?.setBin(state.bin || '');
+    };
+
+    (Object.keys(fieldInputs) as CardField[]).forEach(field => {
+      const input = fieldInputs[field];
+      input.addEventListener('input', refreshState);
+      input.addEventListener('blur', () => {
+        formState.touch(field);
+        refreshState();
+      });
+    });
+
     // Load installments
-    if (installmentsSelect) {
-      const installments = await this.getInstallments(config.amount, '');
-      const limited = installments.filter(o => o.installments <= (config.maxInstallments || 12));
-      installmentsSelect.innerHTML = limited.map(opt => {
-        const amountStr = opt.installmentAmount.toFixed(2).replace('.', ',');
-        const suffix = opt.interestFree
-          ? ' sem juros'
-          : ` (Total: R$ ${opt.totalAmount.toFixed(2).replace('.', ',')})`;
-        return `<option value="${opt.installments}">${opt.installments}x de R$ ${amountStr}${suffix}</option>`;
-      }).join('');
-    }
+    await installments?.refresh();
 
-    // Submit handler
-    form.addEventListener('submit', async (e) => {
-      e.preventDefault();
-      if (submitBtn.disabled) return;
+    // Validate, encrypt and hand PaymentData to onSubmit. Shared by the form's
+    // submit button and the programmatic submit(); rejects with KairosPaymentError.
+    const processSubmit = async (): Promise<PaymentData> => {
+      if (submitBtn.disabled) {
+        throw new KairosPaymentError({ code: ErrorCode.SUBMIT_IN_PROGRESS, message: 'Payment is already being submitted' });
+      }
+
+      const fail = (error: KairosPaymentError): never => {
+        errorEl.textContent = error.message;
+        errorEl.style.display = 'block';
+        config.onError?.(error.toJSON());
+        throw error;
+      };
 
       // Validate
+      formState.touchAll();
+      refreshState();
       const validationError = this.validate(cardNumberInput.value, expiryInput.value, cvvInput.value, nameInput.value);
       if (validationError) {
-        errorEl.textContent = validationError;
-        errorEl.style.display = 'block';
-        config.onError?.({ code: 'VALIDATION_ERROR', message: validationError });
-        return;
+        fail(new KairosPaymentError({ code: ErrorCode.VALIDATION_ERROR, ...validationError }));
       }
 
       errorEl.style.display = 'none';
       submitBtn.disabled = true;
-      const originalText = submitBtn.innerHTML;
-      submitBtn.innerHTML = this.getLoadingButtonHtml();
+      formState.setSubmitting(true);
+      refreshState();
+      const originalContent = Array.from(submitBtn.childNodes);
+      submitBtn.replaceChildren(...this.buildLoadingButtonContent());
 
       try {
-        const cleanNumber = cardNumberInput.value.replace(/\D/g, '');
+        // Charge the installments the customer chose, not the loading placeholder
+        await installments?.ready();
         const [mm, yy] = expiryInput.value.split('/');
-        const expirationYear = (2000 + parseInt(yy || '0', 10)).toString();
-
-        // Encrypt card data client-side
-        const encrypted = await encryptCardData(
-          {
-            number: cleanNumber,
-            holderName: nameInput.value.trim(),
-            expirationMonth: mm,
-            expirationYear,
-            cvv: cvvInput.value,
-          },
-          this.apiUrl,
-          this.tenantId,
-          this.merchantId
-        );
-
-        const paymentData: PaymentData = {
+
+        const card: CardData = {
+          number: cardNumberInput.value,
+          holderName: nameInput.value,
+          expirationMonth: mm,
+          expirationYear: yy || '',
+          cvv: cvvInput.value,
+          installments: installments ? installments.getValue() : 1,
+        };
+
+        // Encrypt card data client-side (or tokenize it through the routed provider)
+        let paymentData: PaymentData;
+        try {
+          paymentData = config.tokenize ? await config.tokenize(card) : await this.encrypt(card);
+        } catch (err) {
+          return fail(toPaymentError(err, ErrorCode.ENCRYPTION_ERROR, 'Failed to encrypt card data'));
+        }
+
+        try {
+          await config.onSubmit(paymentData);
+        } catch (err) {
+          if (!isUnknownKeyIdError(err) || !paymentData.encryptedData) {
+            return fail(toPaymentError(err, ErrorCode.SUBMIT_ERROR, this.messages.processingError));
+          }
+
+          // The merchant key was rotated after we cached it: refetch the keys
+          // and re-encrypt once, skipping the key the backend rejected
+          clearEncryptionCache({ apiUrl: this.apiUrl, tenantId: this.tenantId, merchantId: this.merchantId });
+          try {
+            paymentData = await this.encrypt(card, {
+              excludeKeyId: getEnvelopeKeyId(paymentData.encryptedData || ''),
+            });
+          } catch (retryErr) {
+            return fail(toPaymentError(retryErr, ErrorCode.ENCRYPTION_ERROR, 'Failed to encrypt card data'));
+          }
+
+          try {
+            await config.onSubmit(paymentData);
+          } catch (retryErr) {
+            return fail(toPaymentError(retryErr, ErrorCode.SUBMIT_ERROR, this.messages.processingError));
+          }
+        }
+
+        return paymentData;
+      } finally {
+        submitBtn.disabled = false;
+        submitBtn.replaceChildren(...originalContent);
+        formState.setSubmitting(false);
+        refreshState();
+      }
+    };
+
+    form.addEventListener('submit', (e) => {
+      e.preventDefault();
+      // Errors were already reported through onError and the error banner
+      processSubmit().catch(() => {});
+    });
+
+    config.onReady?.();
+
+    return {
+      updateAmount: (nextAmount: number | Money) => {
+        // Plain numbers keep the form's currency
+        amount = toMoney(nextAmount, amount.currency);
+        if (amountEl) {
+          amountEl.textContent = formatMoney(amount, this.locale);
+        }
+        installments?.setAmount(amount);
+      },
+      submit: processSubmit,
+      unmount: () => {
+        installments?.destroy();
+        containerEl.replaceChildren();
+      },
+    };
+  }
+
+  /**
+   * Hosted-fields variant of the form: card number, expiry and CVV live in
+   * Kairos-origin iframes and are encrypted there; this page only sees their
+   * validity, the brand, the BIN and the final envelope.
+   */
+  private async createHostedCardPayment(
+    containerEl: Element,
+    config: CardPaymentConfig,
+    initialAmount: Money
+  ): Promise<CardPaymentInstance> {
+    let amount = initialAmount;
+    const m = this.messages;
+
+    const errorEl = containerEl.querySelector('[data-kairos-enc-error]') as HTMLElement;
+    const form = containerEl.querySelector('[data-kairos-enc-form]') as HTMLFormElement;
+    const submitBtn = containerEl.querySelector('[data-kairos-enc-submit]') as HTMLButtonElement;
+    // Held by reference: the button's content is swapped out while submitting
+    const amountEl = containerEl.querySelector('[data-kairos-enc-amount]');
+    const nameInput = containerEl.querySelector('[data-kairos-enc-name]') as HTMLInputElement;
+    const installmentsSelect = containerEl.querySelector('[data-kairos-enc-installments]') as HTMLSelectElement;
+    const brandBadge = containerEl.querySelector('[data-kairos-enc-brand]') as HTMLElement;
+    const fieldElements = {
+      cardNumber: containerEl.querySelector('[data-kairos-enc-hosted="cardNumber"]'),
+      expiry: containerEl.querySelector('[data-kairos-enc-hosted="expiry"]'),
+      cvv: containerEl.querySelector('[data-kairos-enc-hosted="cvv"]'),
+      cardholderName: nameInput,
+    } as Record<CardField, HTMLElement>;
+
+    const installments = installmentsSelect
+      ? createInstallmentSelect(installmentsSelect, {
+          amount,
+          maxInstallments: config.maxInstallments || 12,
+          loadInstallments: (planAmount, bin) => this.loadInstallments(planAmount, bin, config.installmentRules),
+          formatOption: opt => formatInstallmentLabel(opt, m, this.locale),
+          loadingLabel: m.installmentsLoading,
+          onLoad: config.onInstallmentsLoaded,
+        })
+      : null;
+
+    // Text inside the frames follows the form's computed style
+    const computed = window.getComputedStyle(nameInput);
+    const hosted = new HostedFields({
+      url: this.hostedFieldsUrl,
+      containers: {
+        cardNumber: fieldElements.cardNumber,
+        expiry: fieldElements.expiry,
+        cvv: fieldElements.cvv,
+      },
+      fields: {
+        cardNumber: { placeholder: '0000 0000 0000 0000', ariaLabel: m.cardNumberLabel },
+        expiry: { placeholder: m.expiryPlaceholder, ariaLabel: m.expiryLabel },
+        cvv: { placeholder: '123', ariaLabel: m.cvvLabel },
+      },
+      tenantId: this.tenantId,
+      merchantId: this.merchantId,
+      locale: this.locale,
+      styles: {
+        color: computed.color,
+        fontFamily: computed.fontFamily,
+        fontSize: computed.fontSize,
+      },
+      onChange: () => refreshState(),
+    });
+
+    let nameTouched = false;
+    let submitting = false;
+    let lastStateKey = '';
+
+    const getState = (): FormState => {
+      const codes: Partial<Record<CardField, CardValidationCode>> = {};
+      const touched: Partial<Record<CardField, boolean>> = { cardholderName: nameTouched };
+      for (const field of HOSTED_FIELDS) {
+        const state = hosted.getState(field);
+        touched[field] = state.touched;
+        if (!state.isValid) codes[field] = state.error || EMPTY_HOSTED_FIELD_ERRORS[field];
+      }
+      const nameError = validateHolderName(nameInput.value);
+      if (nameError) codes.cardholderName = nameError;
+
+      const errors: Record<string, string> = {};
+      for (const field of CARD_FIELDS) {
+        const code = codes[field];
+        if (code && touched[field]) errors[field] = getValidationMessage(code, m);
+      }
+
+      return {
+        isValid: Object.keys(codes).length === 0,
+        isSubmitting: submitting,
+        errors,
+        bin: hosted.getBin() || undefined,
+        cardBrand: hosted.getBrand(),
+      };
+    };
+
+    const refreshState = (): FormState => {
+      const state = getState();
+      this.renderFieldErrors(containerEl, fieldElements, state.errors);
+      for (const field of HOSTED_FIELDS) {
+        fieldElements[field].toggleAttribute('data-focused', hosted.getState(field).focused);
+      }
+      if (brandBadge) {
+        brandBadge.textContent = state.cardBrand ? state.cardBrand.toUpperCase() : '';
+        brandBadge.style.display = state.cardBrand ? 'block' : 'none';
+      }
+      installments?.setBin(state.bin || '');
+
+      const key = JSON.stringify(state);
+      if (key !== lastStateKey) {
+        lastStateKey = key;
+        config.onChange?.(state);
+      }
+      return state;
+    };
+
+    nameInput.addEventListener('input', () => {
+      nameInput.value = nameInput.value.toUpperCase();
+      refreshState();
+    });
+    nameInput.addEventListener('blur', () => {
+      nameTouched = true;
+      refreshState();
+    });
+
+    // Clicking a field's label focuses the input inside its frame
+    HOSTED_FIELDS.forEach(field => {
+      fieldElements[field].closest('.kairos-enc-field')?.querySelector('label')
+        ?.addEventListener('click', () => hosted.focus(field));
+    });
+
+    try {
+      await hosted.mount();
+    } catch (err) {
+      hosted.destroy();
+      installments?.destroy();
+      throw toPaymentError(err, ErrorCode.INIT_ERROR, m.initError);
+    }
+
+    await installments?.refresh();
+
+    // Same contract as the inline form's processSubmit
+    const processSubmit = async (): Promise<PaymentData> => {
+      if (submitting) {
+        throw new KairosPaymentError({ code: ErrorCode.SUBMIT_IN_PROGRESS, message: 'Payment is already being submitted' });
+      }
+
+      const fail = (error: KairosPaymentError): never => {
+        errorEl.textContent = error.message;
+        errorEl.style.display = 'block';
+        config.onError?.(error.toJSON());
+        throw error;
+      };
+
+      hosted.touchAll();
+      nameTouched = true;
+      const state = refreshState();
+      if (!state.isValid) {
+        const field = CARD_FIELDS.find(f => state.errors[f]) || 'cardNumber';
+        fail(new KairosPaymentError({ code: ErrorCode.VALIDATION_ERROR, message: state.errors[field] || m.invalidCardNumber, field }));
+      }
+
+      errorEl.style.display = 'none';
+      submitting = true;
+      submitBtn.disabled = true;
+      refreshState();
+      const originalContent = Array.from(submitBtn.childNodes);
+      submitBtn.replaceChildren(...this.buildLoadingButtonContent());
+
+      const encrypt = async (excludeKeyId?: string): Promise<PaymentData> => {
+        const result = await hosted.tokenize(nameInput.value, { excludeKeyId });
+        return {
           token: '',
-          encryptedData: encrypted,
-          installments: installmentsSelect ? parseInt(installmentsSelect.value) : 1,
-          paymentMethodId: detectCardBrand(cleanNumber) || 'unknown',
+          encryptedData: result.encryptedData,
+          installments: installments ? installments.getValue() : 1,
+          paymentMethodId: result.brand || 'unknown',
           issuerId: '',
-          lastFourDigits: cleanNumber.slice(-4),
+          lastFourDigits: result.lastFourDigits,
           cardholderName: nameInput.value.trim(),
           provider: this.provider,
         };
+      };
 
-        await config.onSubmit(paymentData);
-      } catch (err: any) {
-        errorEl.textContent = err.message || 'Erro ao processar pagamento';
-        errorEl.style.display = 'block';
-        config.onError?.({
-          code: 'ENCRYPTION_ERROR',
-          message: err.message || 'Failed to encrypt card data',
-          cause: err,
-        });
+      try {
+        // Charge the installments the customer chose, not the loading placeholder
+        await installments?.ready();
+        let paymentData: PaymentData;
+        try {
+          paymentData = await encrypt();
+        } catch (err) {
+          return fail(toPaymentError(err, ErrorCode.ENCRYPTION_ERROR, 'Failed to encrypt card data'));
+        }
+
+        try {
+          await config.onSubmit(paymentData);
+        } catch (err) {
+          if (!isUnknownKeyIdError(err)) {
+            return fail(toPaymentError(err, ErrorCode.SUBMIT_ERROR, m.processingError));
+          }
+
+          // Key rotated: the card number frame refetches its keys and re-encrypts once
+          try {
+            paymentData = await encrypt(getEnvelopeKeyId(paymentData.encryptedData || ''));
+          } catch (retryErr) {
+            return fail(toPaymentError(retryErr, ErrorCode.ENCRYPTION_ERROR, 'Failed to encrypt card data'));
+          }
+
+          try {
+            await config.onSubmit(paymentData);
+          } catch (retryErr) {
+            return fail(toPaymentError(retryErr, ErrorCode.SUBMIT_ERROR, m.processingError));
+          }
+        }
+
+        return paymentData;
       } finally {
+        submitting = false;
         submitBtn.disabled = false;
-        submitBtn.innerHTML = originalText;
+        submitBtn.replaceChildren(...originalContent);
+        refreshState();
       }
+    };
+
+    form.addEventListener('submit', (e) => {
+      e.preventDefault();
+      // Errors were already reported through onError and the error banner
+      processSubmit().catch(() => {});
     });
 
     config.onReady?.();
 
     return {
-      updateAmount: (amount: number) => {
-        const amountEl = containerEl.querySelector('[data-kairos-enc-amount]');
+      updateAmount: (nextAmount: number | Money) => {
+        amount = toMoney(nextAmount, amount.currency);
         if (amountEl) {
-          amountEl.textContent = `R$ ${amount.toFixed(2).replace('.', ',')}`;
+          amountEl.textContent = formatMoney(amount, this.locale);
         }
+        installments?.setAmount(amount);
       },
-      submit: async () => {
-        form.dispatchEvent(new Event('submit', { bubbles: true, cancelable: true }));
-        return {} as PaymentData;
-      },
+      submit: processSubmit,
       unmount: () => {
-        containerEl.innerHTML = '';
+        hosted.destroy();
+        installments?.destroy();
+        containerEl.replaceChildren();
       },
     };
   }
 
-  async getInstallments(amount: number, _bin: string): Promise<InstallmentOption[]> {
-    const maxInstallments = 12;
-    const options: InstallmentOption[] = [];
-
-    for (let i = 1; i <= maxInstallments; i++) {
-      const interestFree = i <= 3;
-      const rate = interestFree ? 0 : 0.0199;
-      const totalAmount = interestFree ? amount : amount * Math.pow(1 + rate, i);
-      const installmentAmount = totalAmount / i;
-
-      if (installmentAmount >= 5) {
-        options.push({
-          installments: i,
-          installmentAmount: Math.round(installmentAmount * 100) / 100,
-          totalAmount: Math.round(totalAmount * 100) / 100,
-          interestFree,
-          interestRate: interestFree ? 0 : rate * 100,
-          recommended: i === 1,
-        });
-      }
-    }
+  /** The native form tokenizes through `config.tokenize`; the hosted fields encrypt in their own frame. */
+  supportsRouting(config: CardPaymentConfig): boolean {
+    return !config.hostedFields;
+  }
 
-    return options;
+  /**
+   * Encrypt raw card data for the Kairos backend (no form rendered).
+   * The envelope is returned in `encryptedData`; `token` stays empty.
+   */
+  async tokenizeCard(cardData: CardData): Promise<PaymentData> {
+    return this.encrypt(cardData);
   }
 
-  destroy(): void {
-    // No external SDK to clean up
+  private async encrypt(cardData: CardData, options: EncryptOptions = {}): Promise<PaymentData> {
+    const card = normalizeCardData(cardData);
+
+    let encrypted: string;
+    try {
+      encrypted = await encryptCardData(
+        {
+          number: card.number,
+          holderName: card.holderName,
+          expirationMonth: card.expirationMonth,
+          expirationYear: card.expirationYear,
+          cvv: card.cvv,
+        },
+        this.apiUrl,
+        this.tenantId,
+        this.merchantId,
+        { pinnedKeys: this.pinnedKeys, network: this.network, signal: this.requests.signal, ...options }
+      );
+    } catch (err) {
+      throw toPaymentError(err, ErrorCode.ENCRYPTION_ERROR, 'Failed to encrypt card data');
+    }
+
+    return {
+      token: '',
+      encryptedData: encrypted,
+      installments: card.installments || 1,
+      paymentMethodId: detectCardBrand(card.number) || 'unknown',
+      issuerId: '',
+      lastFourDigits: card.number.slice(-4),
+      cardholderName: card.holderName,
+      provider: this.provider,
+    };
   }
 
-  private validate(cardNumber: string, expiry: string, cvv: string, name: string): string | null {
-    const cleanNumber = cardNumber.replace(/\D/g, '');
-    if (cleanNumber.length < 13) return 'Numero do cartao invalido';
-    if (expiry.length < 5) return 'Data de validade invalida';
+  async getInstallments(amount: number | Money, bin: string): Promise<InstallmentOption[]> {
+    return this.loadInstallments(amount, bin, this.installmentRules);
+  }
 
-    const [mm, yy] = expiry.split('/');
-    const month = parseInt(mm, 10);
-    if (month < 1 || month > 12) return 'Mes invalido';
+  /** Installment plans with a given form's rules (several forms can share the adapter) */
+  private loadInstallments(amount: number | Money, bin: string, rules?: InstallmentRules): Promise<InstallmentOption[]> {
+    return getInstallmentPlans(
+      {
+        apiUrl: this.apiUrl,
+        tenantId: this.tenantId,
+        merchantId: this.merchantId,
+        network: this.network,
+        signal: this.requests.signal,
+      },
+      toMoney(amount),
+      bin,
+      rules
+    );
+  }
 
-    const year = 2000 + parseInt(yy || '0', 10);
-    const now = new Date();
-    if (year < now.getFullYear() || (year === now.getFullYear() && month < now.getMonth() + 1)) {
-      return 'Cartao expirado';
-    }
+  destroy(): void {
+    // No external SDK to clean up
+    this.requests.abort();
+  }
 
-    if (cvv.length !== 3) return 'CVV invalido';
-    if (name.trim().length < 3) return 'Nome invalido';
-    return null;
+  private renderFieldErrors(
+    containerEl: Element,
+    fieldInputs: Record<CardField, HTMLElement>,
+    errors: Record<string, string>
+  ): void {
+    (Object.keys(fieldInputs) as CardField[]).forEach(field => {
+      const message = errors[field] || '';
+      fieldInputs[field].setAttribute('aria-invalid', message ? 'true' : 'false');
+      const messageEl = containerEl.querySelector(`[data-kairos-enc-field-error="${field}"]`);
+      if (messageEl) {
+        messageEl.textContent = message;
+      }
+    });
   }
 
-  private getLoadingButtonHtml(): string {
-    return `
-      <svg class="kairos-enc-spinner" width="20" height="20" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
-        <circle cx="12" cy="12" r="10" stroke="currentColor" stroke-width="3" stroke-linecap="round" stroke-dasharray="32" stroke-dashoffset="32">
-          <animate attributeName="stroke-dashoffset" values="32;0;32" dur="1.2s" repeatCount="indefinite"/>
-          <animateTransform attributeName="transform" type="rotate" from="0 12 12" to="360 12 12" dur="0.8s" repeatCount="indefinite"/>
-        </circle>
-      </svg>
-      <span>Criptografando...</span>
-    `;
+  private validate(
+    cardNumber: string,
+    expiry: string,
+    cvv: string,
+    name: string
+  ): { field: CardField; message: string } | null {
+    const error = getFirstCardError(validateCard({ number: cardNumber, expiry, cvv, holderName: name }));
+    return error ? { field: error.field, message: getValidationMessage(error.code, this.messages) } : null;
   }
 
-  private buildFormHtml(config: CardPaymentConfig): string {
-    const amountFormatted = config.amount.toFixed(2).replace('.', ',');
-
-    // Kairos brand logo SVG (matches console icon)
-    const kairosLogoSvg = `<svg width="18" height="18" viewBox="0 0 48 48" fill="none" xmlns="http://www.w3.org/2000/svg">
-      <defs>
-        <linearGradient id="kairos-logo-grad" x1="0%" y1="0%" x2="100%" y2="100%">
-          <stop offset="0%" style="stop-color:#3B82F6"/>
-          <stop offset="100%" style="stop-color:#8B5CF6"/>
-        </linearGradient>
-      </defs>
-      <circle cx="24" cy="24" r="22" fill="url(#kairos-logo-grad)"/>
-      <path d="M16 12 L16 36 M16 24 L32 12 M16 24 L32 36" stroke="white" stroke-width="4" stroke-linecap="round" stroke-linejoin="round"/>
-      <circle cx="36" cy="36" r="5" fill="#10B981"/>
-    </svg>`;
-
-    return `
-      <style>
-        /*
-         * Kairos Payments SDK — Card Form Styles
-         *
-         * Override with CSS custom properties on the parent element:
-         *   --kairos-font:        Font family (default: inherit)
-         *   --kairos-text:        Text color (default: inherit)
-         *   --kairos-text-muted:  Muted text / labels (default: inherit with opacity)
-         *   --kairos-bg:          Input background (default: transparent)
-         *   --kairos-border:      Border color (default: currentColor with opacity)
-         *   --kairos-radius:      Border radius (default: 8px)
-         *   --kairos-focus:       Focus ring color (default: #7c3aed)
-         *   --kairos-accent:      Button gradient start (default: #7c3aed)
-         *   --kairos-accent-end:  Button gradient end (default: #9333ea)
-         *   --kairos-success:     Security badge color (default: #059669)
-         */
-        .kairos-enc-form {
-          font-family: var(--kairos-font, inherit);
-          color: var(--kairos-text, inherit);
-          display: flex;
-          flex-direction: column;
-          gap: 16px;
-        }
-        .kairos-enc-field {
-          display: flex;
-          flex-direction: column;
-          gap: 6px;
-        }
-        .kairos-enc-field label {
-          font-size: 13px;
-          font-weight: 500;
-          opacity: 0.7;
-        }
-        .kairos-enc-field input,
-        .kairos-enc-field select {
-          height: 44px;
-          padding: 0 12px;
-          border: 1px solid var(--kairos-border, color-mix(in srgb, currentColor 25%, transparent));
-          border-radius: var(--kairos-radius, 8px);
-          font-size: 15px;
-          font-family: inherit;
-          color: inherit;
-          background: var(--kairos-bg, transparent);
-          outline: none;
-          transition: border-color 0.15s, box-shadow 0.15s;
-          -webkit-appearance: none;
-        }
-        .kairos-enc-field input:focus,
-        .kairos-enc-field select:focus {
-          border-color: var(--kairos-focus, #7c3aed);
-          box-shadow: 0 0 0 3px color-mix(in srgb, var(--kairos-focus, #7c3aed) 15%, transparent);
-        }
-        .kairos-enc-field input::placeholder {
-          color: inherit;
-          opacity: 0.4;
-        }
-        .kairos-enc-row {
-          display: grid;
-          grid-template-columns: 1fr 1fr;
-          gap: 12px;
-        }
-        .kairos-enc-card-number-wrapper {
-          position: relative;
-        }
-        .kairos-enc-brand {
-          position: absolute;
-          right: 12px;
-          top: 50%;
-          transform: translateY(-50%);
-          font-size: 11px;
-          font-weight: 700;
-          opacity: 0.5;
-          letter-spacing: 0.05em;
-          display: none;
-        }
-        .kairos-enc-error {
-          display: none;
-          padding: 10px 14px;
-          background: color-mix(in srgb, #ef4444 10%, transparent);
-          border: 1px solid color-mix(in srgb, #ef4444 25%, transparent);
-          border-radius: var(--kairos-radius, 8px);
-          color: #ef4444;
-          font-size: 13px;
-        }
-        .kairos-enc-security {
-          display: flex;
-          align-items: center;
-          gap: 10px;
-          padding: 12px 14px;
-          background: color-mix(in srgb, var(--kairos-success, #059669) 8%, transparent);
-          border: 1px solid color-mix(in srgb, var(--kairos-success, #059669) 20%, transparent);
-          border-radius: var(--kairos-radius, 8px);
-        }
-        .kairos-enc-security-icon {
-          flex-shrink: 0;
-          width: 28px;
-          height: 28px;
-          color: var(--kairos-success, #059669);
-        }
-        .kairos-enc-security-text {
-          flex: 1;
-          min-width: 0;
-        }
-        .kairos-enc-security-text strong {
-          display: block;
-          font-size: 13px;
-          font-weight: 600;
-          color: var(--kairos-success, #059669);
-        }
-        .kairos-enc-security-text span {
-          font-size: 11px;
-          color: var(--kairos-success, #059669);
-          opacity: 0.75;
-        }
-        .kairos-enc-security-badge {
-          display: flex;
-          align-items: center;
-          gap: 5px;
-          flex-shrink: 0;
-          color: var(--kairos-success, #059669);
-          opacity: 0.85;
-        }
-        .kairos-enc-security-badge svg {
-          width: 18px;
-          height: 18px;
-        }
-        .kairos-enc-security-lock {
-          width: 10px;
-          height: 10px;
-          opacity: 0.7;
-        }
-        .kairos-enc-submit {
-          display: flex;
-          align-items: center;
-          justify-content: center;
-          gap: 8px;
-          width: 100%;
-          height: 52px;
-          border: none;
-          border-radius: var(--kairos-radius, 8px);
-          font-size: 16px;
-          font-weight: 600;
-          font-family: inherit;
-          color: #fff;
-          background: linear-gradient(135deg, var(--kairos-accent, #7c3aed) 0%, var(--kairos-accent-end, #9333ea) 100%);
-          cursor: pointer;
-          transition: opacity 0.15s, transform 0.1s;
-        }
-        .kairos-enc-submit:hover:not(:disabled) {
-          opacity: 0.92;
-        }
-        .kairos-enc-submit:active:not(:disabled) {
-          transform: scale(0.98);
-        }
-        .kairos-enc-submit:disabled {
-          opacity: 0.6;
-          cursor: not-allowed;
-        }
-        .kairos-enc-submit svg {
-          width: 20px;
-          height: 20px;
-        }
-        .kairos-enc-spinner {
-          animation: kairos-enc-spin 0.8s linear infinite;
-        }
-        @keyframes kairos-enc-spin {
-          to { transform: rotate(360deg); }
-        }
-      </style>
-
-      <form class="kairos-enc-form" data-kairos-enc-form>
-        <div data-kairos-enc-error class="kairos-enc-error"></div>
-
-        <div class="kairos-enc-field">
-          <label>Numero do Cartao</label>
-          <div class="kairos-enc-card-number-wrapper">
-            <input
-              type="text"
-              inputmode="numeric"
-              placeholder="0000 0000 0000 0000"
-              maxlength="19"
-              autocomplete="cc-number"
-              data-kairos-enc-card-number
-            />
-            <span class="kairos-enc-brand" data-kairos-enc-brand></span>
-          </div>
-        </div>
-
-        <div class="kairos-enc-row">
-          <div class="kairos-enc-field">
-            <label>Validade</label>
-            <input
-              type="text"
-              inputmode="numeric"
-              placeholder="MM/AA"
-              maxlength="5"
-              autocomplete="cc-exp"
-              data-kairos-enc-expiry
-            />
-          </div>
-          <div class="kairos-enc-field">
-            <label>CVV</label>
-            <input
-              type="text"
-              inputmode="numeric"
-              placeholder="123"
-              maxlength="3"
-              autocomplete="cc-csc"
-              data-kairos-enc-cvv
-            />
-          </div>
-        </div>
-
-        <div class="kairos-enc-field">
-          <label>Nome no Cartao</label>
-          <input
-            type="text"
-            placeholder="NOME COMO NO CARTAO"
-            autocomplete="cc-name"
-            data-kairos-enc-name
-          />
-        </div>
-
-        ${config.showInstallments !== false ? `
-        <div class="kairos-enc-field">
-          <label>Parcelas</label>
-          <select data-kairos-enc-installments>
-            <option value="1">1x de R$ ${amountFormatted} sem juros</option>
-          </select>
-        </div>
-        ` : ''}
-
-        <div class="kairos-enc-security">
-          <svg class="kairos-enc-security-icon" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
-            <path d="M12 22s8-4 8-10V5l-8-3-8 3v7c0 6 8 10 8 10z"/>
-            <path d="m9 12 2 2 4-4"/>
-          </svg>
-          <div class="kairos-enc-security-text">
-            <strong>Pagamento Seguro</strong>
-            <span>Criptografia ponta a ponta via Kairos Payment Hub</span>
-          </div>
-          <div class="kairos-enc-security-badge">
-            <svg class="kairos-enc-security-lock" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2.5" stroke-linecap="round" stroke-linejoin="round">
-              <rect x="3" y="11" width="18" height="11" rx="2" ry="2"/>
-              <path d="M7 11V7a5 5 0 0 1 10 0v4"/>
-            </svg>
-            ${kairosLogoSvg}
-          </div>
-        </div>
-
-        <button type="submit" class="kairos-enc-submit" data-kairos-enc-submit>
-          <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
-            <rect x="1" y="4" width="22" height="16" rx="2" ry="2"/>
-            <line x1="1" y1="10" x2="23" y2="10"/>
-          </svg>
-          <span>Pagar <span data-kairos-enc-amount>R$ ${amountFormatted}</span></span>
-        </button>
-      </form>
-    `;
+  private buildLoadingButtonContent(): Node[] {
+    return [
+      svg('svg', { class: 'kairos-enc-spinner', width: 20, height: 20, viewBox: '0 0 24 24', fill: 'none' }, [
+        svg('circle', {
+          cx: 12, cy: 12, r: 10, stroke: 'currentColor', 'stroke-width': 3,
+          'stroke-linecap': 'round', 'stroke-dasharray': 32, 'stroke-dashoffset': 32,
+        }, [
+          svg('animate', { attributeName: 'stroke-dashoffset', values: '32;0;32', dur: '1.2s', repeatCount: 'indefinite' }),
+          svg('animateTransform', {
+            attributeName: 'transform', type: 'rotate', from: '0 12 12', to: '360 12 12',
+            dur: '0.8s', repeatCount: 'indefinite',
+          }),
+        ]),
+      ]),
+      h('span', {}, [this.messages.encrypting]),
+    ];
   }
-}
 
-/** Detect card brand from BIN (first digits). */
-function detectCardBrand(number: string): string {
-  const clean = number.replace(/\D/g, '');
-  if (/^4/.test(clean)) return 'visa';
-  if (/^5[1-5]/.test(clean)) return 'mastercard';
-  if (/^3[47]/.test(clean)) return 'amex';
-  if (/^(636368|438935|504175|451416|636297)/.test(clean) || /^(5067|4576|4011)/.test(clean)) return 'elo';
-  if (/^606282/.test(clean)) return 'hipercard';
-  return '';
+  private buildForm(config: CardPaymentConfig, amount: Money): HTMLFormElement {
+    const m = this.messages;
+    const amountFormatted = formatMoney(amount, this.locale);
+    const hostedField = (field: HostedField) =>
+      h('div', { class: 'kairos-enc-hosted', 'data-kairos-enc-hosted': field });
+    const fieldError = (field: CardField) =>
+      h('span', { class: 'kairos-enc-field-error', 'data-kairos-enc-field-error': field });
+    const iconAttributes = {
+      viewBox: '0 0 24 24', fill: 'none', stroke: 'currentColor',
+      'stroke-linecap': 'round', 'stroke-linejoin': 'round',
+    };
+
+    // Kairos brand logo SVG (matches console icon); the gradient id is per form
+    const logoGradientId = uniqueId('kairos-logo-grad');
+    const kairosLogoSvg = svg('svg', { width: 18, height: 18, viewBox: '0 0 48 48', fill: 'none' }, [
+      svg('defs', {}, [
+        svg('linearGradient', { id: logoGradientId, x1: '0%', y1: '0%', x2: '100%', y2: '100%' }, [
+          svg('stop', { offset: '0%', 'stop-color': '#3B82F6' }),
+          svg('stop', { offset: '100%', 'stop-color': '#8B5CF6' }),
+        ]),
+      ]),
+      svg('circle', { cx: 24, cy: 24, r: 22, fill: `url(#${logoGradientId})` }),
+      svg('path', {
+        d: 'M16 12 L16 36 M16 24 L32 12 M16 24 L32 36', stroke: 'white', 'stroke-width': 4,
+        'stroke-linecap': 'round', 'stroke-linejoin': 'round',
+      }),
+      svg('circle', { cx: 36, cy: 36, r: 5, fill: '#10B981' }),
+    ]);
+
+    return h('form', { class: 'kairos-enc-form', 'data-kairos-enc-form': true }, [
+      h('div', { 'data-kairos-enc-error': true, class: 'kairos-enc-error' }),
+
+      h('div', { class: 'kairos-enc-field' }, [
+        h('label', {}, [m.cardNumberLabel]),
+        h('div', { class: 'kairos-enc-card-number-wrapper' }, [
+          config.hostedFields ? hostedField('cardNumber') : h('input', {
+            type: 'text',
+            inputmode: 'numeric',
+            placeholder: '0000 0000 0000 0000',
+            maxlength: 23,
+            autocomplete: 'cc-number',
+            'data-kairos-enc-card-number': true,
+          }),
+          h('span', { class: 'kairos-enc-brand', 'data-kairos-enc-brand': true }),
+        ]),
+        fieldError('cardNumber'),
+      ]),
+
+      h('div', { class: 'kairos-enc-row' }, [
+        h('div', { class: 'kairos-enc-field' }, [
+          h('label', {}, [m.expiryLabel]),
+          config.hostedFields ? hostedField('expiry') : h('input', {
+            type: 'text',
+            inputmode: 'numeric',
+            placeholder: m.expiryPlaceholder,
+            maxlength: 5,
+            autocomplete: 'cc-exp',
+            'data-kairos-enc-expiry': true,
+          }),
+          fieldError('expiry'),
+        ]),
+        h('div', { class: 'kairos-enc-field' }, [
+          h('label', {}, [m.cvvLabel]),
+          config.hostedFields ? hostedField('cvv') : h('input', {
+            type: 'text',
+            inputmode: 'numeric',
+            placeholder: '123',
+            maxlength: 3,
+            autocomplete: 'cc-csc',
+            'data-kairos-enc-cvv': true,
+          }),
+          fieldError('cvv'),
+        ]),
+      ]),
+
+      h('div', { class: 'kairos-enc-field' }, [
+        h('label', {}, [m.cardholderNameLabel]),
+        h('input', {
+          type: 'text',
+          placeholder: m.cardholderNamePlaceholder,
+          autocomplete: 'cc-name',
+          'data-kairos-enc-name': true,
+        }),
+        fieldError('cardholderName'),
+      ]),
+
+      config.showInstallments !== false && h('div', { class: 'kairos-enc-field' }, [
+        h('label', {}, [m.installmentsLabel]),
+        h('select', { 'data-kairos-enc-installments': true }, [
+          h('option', { value: '1' }, [
+            formatInstallmentLabel(buildInstallmentOption(1, amount, { interestFree: true }), m, this.locale),
+          ]),
+        ]),
+      ]),
+
+      h('div', { class: 'kairos-enc-security' }, [
+        svg('svg', { class: 'kairos-enc-security-icon', 'stroke-width': 2, ...iconAttributes }, [
+          svg('path', { d: 'M12 22s8-4 8-10V5l-8-3-8 3v7c0 6 8 10 8 10z' }),
+          svg('path', { d: 'm9 12 2 2 4-4' }),
+        ]),
+        h('div', { class: 'kairos-enc-security-text' }, [
+          h('strong', {}, [m.securePaymentTitle]),
+          h('span', {}, [m.securePaymentSubtitle]),
+        ]),
+        h('div', { class: 'kairos-enc-security-badge' }, [
+          svg('svg', { class: 'kairos-enc-security-lock', 'stroke-width': 2.5, ...iconAttributes }, [
+            svg('rect', { x: 3, y: 11, width: 18, height: 11, rx: 2, ry: 2 }),
+            svg('path', { d: 'M7 11V7a5 5 0 0 1 10 0v4' }),
+          ]),
+          kairosLogoSvg,
+        ]),
+      ]),
+
+      h('button', { type: 'submit', class: 'kairos-enc-submit', 'data-kairos-enc-submit': true }, [
+        svg('svg', { 'stroke-width': 2, ...iconAttributes }, [
+          svg('rect', { x: 1, y: 4, width: 22, height: 16, rx: 2, ry: 2 }),
+          svg('line', { x1: 1, y1: 10, x2: 23, y2: 10 }),
+        ]),
+        h('span', {}, [
+          `${m.payButton} `,
+          h('span', { 'data-kairos-enc-amount': true }, [amountFormatted]),
+        ]),
+      ]),
+    ]);
+  }
 }
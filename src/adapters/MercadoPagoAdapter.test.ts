@@ -0,0 +1,31 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { MercadoPagoAdapter } from './MercadoPagoAdapter';
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('MercadoPagoAdapter.getInstallments', () => {
+  it("shows MercadoPago's own installment amounts", async () => {
+    const getInstallments = vi.fn(async () => [{
+      payer_costs: [
+        { installments: 1, installment_rate: 0, installment_amount: 100, total_amount: 100 },
+        { installments: 3, installment_rate: 5.99, installment_amount: 35.34, total_amount: 105.99 }
+      ]
+    }]);
+    // The SDK is already on the page, so init() doesn't load it
+    vi.stubGlobal('MercadoPago', vi.fn(() => ({ bricks: () => ({}), getInstallments })));
+    const adapter = new MercadoPagoAdapter();
+    await adapter.init('public-key');
+
+    const options = await adapter.getInstallments(100, '41111111');
+
+    expect(getInstallments).toHaveBeenCalledWith({ amount: '100', bin: '41111111' });
+    expect(options.map(o => [o.installments, o.installmentAmount, o.totalAmount])).toEqual([
+      [1, 100, 100],
+      [3, 35.34, 105.99]
+    ]);
+    expect(options[1]).toMatchObject({ interestFree: false, interestRate: 5.99, recommended: false });
+  });
+});
@@ -3,12 +3,25 @@ import type {
   CardPaymentConfig,
   CardPaymentInstance,
   InstallmentOption,
-  PaymentData
+  PaymentData,
+  Money,
+  CardData
 } from '../types';
+import { detectCardBrand, normalizeCardData } from '../card/validation';
+import { KairosPaymentError, toPaymentError } from '../core/errors';
+import { ErrorCode } from '../core/errorCodes';
+import { mapMercadoPagoBricksError, mapMercadoPagoCardTokenError } from './pspErrors';
+import { buildInstallmentOption } from '../core/installments';
+import { toMoney, toMajorUnits, fromMajorUnits } from '../core/money';
+import { loadScript } from '../dom/csp';
+
+/** Bricks mount by element id; containers without one get a generated id */
+let containerCount = 0;
 
 declare global {
   interface Window {
     MercadoPago: any;
+    MP_DEVICE_SESSION_ID?: string;
   }
 }
 
@@ -23,8 +36,10 @@ export class MercadoPagoAdapter implements PspAdapter {
 
   private mp: any = null;
   private bricksBuilder: any = null;
-  private cardPaymentBrick: any = null;
+  /** Mounted card payment Bricks (one per form) */
+  private cardPaymentBricks = new Set<any>();
   private publicKey: string = '';
+  private cspNonce?: string;
 
   /**
    * Load MercadoPago SDK script dynamically.
@@ -34,18 +49,12 @@ export class MercadoPagoAdapter implements PspAdapter {
       return;
     }
 
-    return new Promise((resolve, reject) => {
-      const script = document.createElement('script');
-      script.src = 'https://sdk.mercadopago.com/js/v2';
-      script.async = true;
-      script.onload = () => resolve();
-      script.onerror = () => reject(new Error('Failed to load MercadoPago SDK'));
-      document.head.appendChild(script);
-    });
+    return loadScript('https://sdk.mercadopago.com/js/v2', 'Failed to load MercadoPago SDK', { nonce: this.cspNonce });
   }
 
   async init(publicKey: string, options?: Record<string, unknown>): Promise<void> {
     this.publicKey = publicKey;
+    this.cspNonce = (options?.cspNonce as string) || undefined;
 
     await this.loadScript();
 
@@ -60,21 +69,59 @@ export class MercadoPagoAdapter implements PspAdapter {
     container: string | HTMLElement,
     config: CardPaymentConfig
   ): Promise<CardPaymentInstance> {
-    const containerId = typeof container === 'string'
-      ? container.replace('#', '')
-      : container.id;
-
-    // Clear any existing brick
-    if (this.cardPaymentBrick) {
-      await this.cardPaymentBrick.unmount();
+    let containerId: string;
+    if (typeof container === 'string') {
+      containerId = container.replace('#', '');
+    } else {
+      if (!container.id) {
+        container.id = `kairos-mp-card-${++containerCount}`;
+      }
+      containerId = container.id;
     }
 
-    const settings = {
+    // Payer data reported by the Brick, carried over when it's rebuilt
+    let payer: Record<string, unknown> = { email: '' };
+
+    // Map the Brick's card form data to PaymentData and hand it to onSubmit.
+    // Used by the Brick's own submit button and by the programmatic submit().
+    const handleCardFormData = async (cardFormData: any): Promise<PaymentData> => {
+      const submittedState = {
+        isValid: true,
+        errors: {},
+        bin: cardFormData.bin || undefined,
+        cardBrand: cardFormData.payment_method_id
+      };
+      config.onChange?.({ ...submittedState, isSubmitting: true });
+
+      if (cardFormData.payer) {
+        payer = { ...payer, ...cardFormData.payer };
+      }
+
+      const paymentData: PaymentData = {
+        token: cardFormData.token,
+        installments: cardFormData.installments,
+        paymentMethodId: cardFormData.payment_method_id,
+        issuerId: cardFormData.issuer_id,
+        lastFourDigits: cardFormData.last_four_digits || '',
+        cardholderName: cardFormData.cardholder?.name || '',
+        provider: this.provider
+      };
+
+      try {
+        await config.onSubmit(paymentData);
+      } finally {
+        config.onChange?.({ ...submittedState, isSubmitting: false });
+      }
+
+      return paymentData;
+    };
+
+    // Bricks take major units
+    let amount = toMoney(config.amount);
+    const buildSettings = (money: Money) => ({
       initialization: {
-        amount: config.amount,
-        payer: {
-          email: ''
-        }
+        amount: toMajorUnits(money),
+        payer
       },
       customization: {
         visual: {
@@ -93,55 +140,186 @@ export class MercadoPagoAdapter implements PspAdapter {
         onReady: () => {
           config.onReady?.();
         },
+        onBinChange: (bin: string | null) => {
+          // Bricks validates fields internally; only BIN and brand are exposed
+          config.onChange?.({
+            isValid: false,
+            isSubmitting: false,
+            errors: {},
+            bin: bin || undefined,
+            cardBrand: bin ? detectCardBrand(bin) || undefined : undefined
+          });
+        },
         onSubmit: async (cardFormData: any) => {
-          const paymentData: PaymentData = {
-            token: cardFormData.token,
-            installments: cardFormData.installments,
-            paymentMethodId: cardFormData.payment_method_id,
-            issuerId: cardFormData.issuer_id,
-            lastFourDigits: cardFormData.last_four_digits || '',
-            cardholderName: cardFormData.cardholder?.name || '',
-            provider: this.provider
-          };
-
-          await config.onSubmit(paymentData);
+          await handleCardFormData(cardFormData);
         },
         onError: (error: any) => {
-          config.onError?.({
-            code: error.type || 'UNKNOWN',
-            message: error.message || 'An error occurred',
-            cause: error
-          });
+          config.onError?.(mapMercadoPagoBricksError(error).toJSON());
         }
       }
-    };
+    });
 
-    this.cardPaymentBrick = await this.bricksBuilder.create(
+    let cardPaymentBrick: any = await this.bricksBuilder.create(
       'cardPayment',
       containerId,
-      settings
+      buildSettings(amount)
     );
+    this.cardPaymentBricks.add(cardPaymentBrick);
+    let unmounted = false;
+    // The form was unmounted, or the adapter destroyed
+    const isDetached = () => unmounted || !this.bricksBuilder;
 
     return {
-      updateAmount: (amount: number) => {
-        // MercadoPago Bricks doesn't support dynamic amount update
-        // Would need to recreate the brick
-        console.warn('MercadoPago Bricks does not support dynamic amount update');
+      updateAmount: async (nextAmount: number | Money) => {
+        amount = toMoney(nextAmount, amount.currency);
+        const brick = cardPaymentBrick;
+        if (!brick) return;
+
+        // Newer Bricks versions update in place, keeping what the user typed
+        if (typeof brick.update === 'function') {
+          try {
+            await brick.update({ amount: toMajorUnits(amount) });
+            return;
+          } catch {
+            // Fall through to rebuilding the Brick
+          }
+        }
+
+        // Otherwise rebuild the Brick with the new amount. Card fields are
+        // PSP-hosted and can't be read back, so only payer data is preserved.
+        try {
+          this.cardPaymentBricks.delete(brick);
+          cardPaymentBrick = null;
+          await brick.unmount();
+          if (isDetached()) return;
+          const rebuilt = await this.bricksBuilder.create(
+            'cardPayment',
+            containerId,
+            buildSettings(amount)
+          );
+          // Unmounted while the Brick was being created: don't leave it mounted
+          if (isDetached()) {
+            rebuilt.unmount();
+            return;
+          }
+          cardPaymentBrick = rebuilt;
+          this.cardPaymentBricks.add(cardPaymentBrick);
+          config.onRerender?.();
+        } catch (error: any) {
+          config.onError?.({
+            code: ErrorCode.INIT_ERROR,
+            message: error?.message || 'Failed to rebuild MercadoPago Brick',
+            cause: error
+          });
+        }
       },
       submit: async () => {
-        // Bricks handles submission internally
-        throw new Error('Use form submission instead');
+        const fail = (error: KairosPaymentError): never => {
+          config.onError?.(error.toJSON());
+          throw error;
+        };
+
+        const brick = cardPaymentBrick;
+        if (!brick || typeof brick.getFormData !== 'function') {
+          return fail(new KairosPaymentError({
+            code: ErrorCode.INIT_ERROR,
+            message: 'MercadoPago Brick is not mounted'
+          }));
+        }
+
+        // getFormData() validates the Brick's fields and tokenizes the card
+        let cardFormData: any;
+        try {
+          cardFormData = await brick.getFormData();
+        } catch (error) {
+          return fail(toPaymentError(error, ErrorCode.TOKENIZATION_ERROR, 'Failed to tokenize card'));
+        }
+
+        if (!cardFormData?.token) {
+          return fail(new KairosPaymentError({
+            code: ErrorCode.VALIDATION_ERROR,
+            message: 'Card form is incomplete or invalid'
+          }));
+        }
+
+        try {
+          return await handleCardFormData(cardFormData);
+        } catch (error) {
+          return fail(toPaymentError(error, ErrorCode.SUBMIT_ERROR, 'Failed to process payment'));
+        }
       },
       unmount: () => {
-        this.cardPaymentBrick?.unmount();
-        this.cardPaymentBrick = null;
+        unmounted = true;
+        // Bricks no longer tracked were already unmounted by destroy()
+        if (cardPaymentBrick && this.cardPaymentBricks.delete(cardPaymentBrick)) {
+          cardPaymentBrick.unmount();
+        }
+        cardPaymentBrick = null;
       }
     };
   }
 
-  async getInstallments(amount: number, bin: string): Promise<InstallmentOption[]> {
+  /**
+   * Tokenize raw card data with MercadoPago's `createCardToken` (no Brick
+   * rendered). Payment method and issuer are resolved from the BIN.
+   */
+  async tokenizeCard(cardData: CardData): Promise<PaymentData> {
+    if (!this.mp) {
+      throw new KairosPaymentError({
+        code: ErrorCode.INIT_ERROR,
+        message: 'MercadoPago SDK is not initialized'
+      });
+    }
+
+    const card = normalizeCardData(cardData);
+
+    let cardToken: any;
+    try {
+      cardToken = await this.mp.createCardToken({
+        cardNumber: card.number,
+        cardholderName: card.holderName,
+        cardExpirationMonth: card.expirationMonth,
+        cardExpirationYear: card.expirationYear,
+        securityCode: card.cvv,
+        identificationType: card.identification?.type,
+        identificationNumber: card.identification?.number
+      });
+    } catch (error) {
+      throw mapMercadoPagoCardTokenError(error);
+    }
+
+    if (!cardToken?.id) {
+      throw new KairosPaymentError({
+        code: ErrorCode.TOKENIZATION_ERROR,
+        message: 'MercadoPago did not return a card token'
+      });
+    }
+
+    // MercadoPago ids ('master', 'amex'...) differ from our brand names;
+    // fall back to local detection when the lookup fails
+    let paymentMethod: any = null;
+    try {
+      const methods = await this.mp.getPaymentMethods({ bin: card.number.slice(0, 8) });
+      paymentMethod = methods?.results?.[0] || null;
+    } catch {
+      // Keep the locally detected brand
+    }
+
+    return {
+      token: cardToken.id,
+      installments: card.installments || 1,
+      paymentMethodId: paymentMethod?.id || detectCardBrand(card.number) || 'unknown',
+      issuerId: paymentMethod?.issuer?.id ? String(paymentMethod.issuer.id) : '',
+      lastFourDigits: cardToken.last_four_digits || card.number.slice(-4),
+      cardholderName: card.holderName,
+      provider: this.provider
+    };
+  }
+
+  async getInstallments(amount: number | Money, bin: string): Promise<InstallmentOption[]> {
+    const money = toMoney(amount);
     const response = await this.mp.getInstallments({
-      amount: String(amount),
+      amount: String(toMajorUnits(money)),
       bin: bin
     });
 
@@ -151,21 +329,43 @@ export class MercadoPagoAdapter implements PspAdapter {
 
     const payerCosts = response[0].payer_costs || [];
 
-    return payerCosts.map((cost: any, index: number) => ({
-      installments: cost.installments,
-      installmentAmount: cost.installment_amount,
-      totalAmount: cost.total_amount,
-      interestFree: cost.installment_rate === 0,
-      interestRate: cost.installment_rate,
-      recommended: index === 0
-    }));
+    // MercadoPago's installment_amount is what it charges per installment,
+    // which can differ from an even split of total_amount
+    return payerCosts.map((cost: any, index: number) =>
+      buildInstallmentOption(cost.installments, fromMajorUnits(cost.total_amount, money.currency), {
+        interestFree: cost.installment_rate === 0,
+        interestRate: cost.installment_rate,
+        recommended: index === 0
+      }, typeof cost.installment_amount === 'number'
+        ? fromMajorUnits(cost.installment_amount, money.currency)
+        : undefined)
+    );
   }
 
-  destroy(): void {
-    if (this.cardPaymentBrick) {
-      this.cardPaymentBrick.unmount();
-      this.cardPaymentBrick = null;
+  /**
+   * MercadoPago device session id, set by its security script
+   * (sent to MercadoPago as the X-meli-session-id header by the backend).
+   * Polls until it's set, for up to 10s or until `signal` is aborted.
+   */
+  async getDeviceSessionId(signal?: AbortSignal): Promise<string | undefined> {
+    if (!window.MP_DEVICE_SESSION_ID && !document.querySelector('script[data-kairos-mp-security]')) {
+      loadScript('https://www.mercadopago.com/v2/security.js', 'Failed to load MercadoPago security script', {
+        nonce: this.cspNonce,
+        attributes: { view: 'checkout', 'data-kairos-mp-security': '' }
+      }).catch(() => {});
+    }
+
+    // The script sets the id asynchronously after loading
+    const deadline = Date.now() + 10000;
+    while (!window.MP_DEVICE_SESSION_ID && Date.now() < deadline && !signal?.aborted) {
+      await new Promise(resolve => setTimeout(resolve, 100));
     }
+    return window.MP_DEVICE_SESSION_ID;
+  }
+
+  destroy(): void {
+    this.cardPaymentBricks.forEach(brick => brick.unmount());
+    this.cardPaymentBricks.clear();
     this.mp = null;
     this.bricksBuilder = null;
   }
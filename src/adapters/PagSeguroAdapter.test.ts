@@ -0,0 +1,151 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { PagSeguroAdapter } from './PagSeguroAdapter';
+import { ErrorCode } from '../core/errorCodes';
+import type { CardData } from '../types';
+
+const HOSTILE = '<img src=x onerror="alert(1)"><script>alert(2)</script>';
+
+const HOSTILE_MESSAGES = {
+  cardNumberLabel: HOSTILE,
+  expiryLabel: HOSTILE,
+  expiryPlaceholder: HOSTILE,
+  cvvLabel: HOSTILE,
+  cardholderNameLabel: HOSTILE,
+  cardholderNamePlaceholder: HOSTILE,
+  installmentsLabel: HOSTILE,
+  installmentInterestFree: `${HOSTILE} {count}x {amount}`,
+  payButton: HOSTILE
+};
+
+function expectNoMarkup(container: HTMLElement): void {
+  expect(container.querySelector('img, script, [onerror]')).toBeNull();
+}
+
+function fillCard(container: HTMLElement): void {
+  (container.querySelector('[name="cardNumber"]') as HTMLInputElement).value = '4111 1111 1111 1111';
+  (container.querySelector('[name="expiry"]') as HTMLInputElement).value = '12/35';
+  (container.querySelector('[name="cvv"]') as HTMLInputElement).value = '123';
+  (container.querySelector('[name="cardholderName"]') as HTMLInputElement).value = 'MARIA SILVA';
+}
+
+async function createAdapter(): Promise<PagSeguroAdapter> {
+  const adapter = new PagSeguroAdapter();
+  await adapter.init('public-key', { locale: 'en-US', messages: HOSTILE_MESSAGES });
+  return adapter;
+}
+
+beforeEach(() => {
+  // The SDK is already on the page, so init() doesn't load it
+  vi.stubGlobal('PagSeguro', {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  document.body.replaceChildren();
+});
+
+describe('PagSeguroAdapter card form', () => {
+  it('renders hostile labels and installment text as text', async () => {
+    const container = document.body.appendChild(document.createElement('div'));
+    const adapter = await createAdapter();
+
+    const payment = await adapter.createCardPayment(container, { amount: 100, onSubmit: vi.fn() });
+
+    expectNoMarkup(container);
+    const labels = Array.from(container.querySelectorAll('label'));
+    expect(labels).toHaveLength(5);
+    expect(labels.every(label => label.textContent === HOSTILE)).toBe(true);
+    expect((container.querySelector('[name="cardholderName"]') as HTMLInputElement).placeholder).toBe(HOSTILE);
+    expect((container.querySelector('[name="expiry"]') as HTMLInputElement).placeholder).toBe(HOSTILE);
+    expect(container.querySelector('[name="installments"] option')?.textContent).toBe(`${HOSTILE} 1x R$100.00`);
+    expect(container.querySelector('button')?.textContent).toBe(`${HOSTILE} R$100.00`);
+
+    payment.unmount();
+    adapter.destroy();
+  });
+
+  it('reports hostile error messages without rendering them', async () => {
+    const container = document.body.appendChild(document.createElement('div'));
+    const adapter = await createAdapter();
+    const onError = vi.fn();
+
+    const payment = await adapter.createCardPayment(container, {
+      amount: 100,
+      onSubmit: vi.fn(),
+      onError,
+      tokenize: async () => {
+        throw new Error(HOSTILE);
+      }
+    });
+    fillCard(container);
+
+    await expect(payment.submit()).rejects.toMatchObject({ code: ErrorCode.TOKENIZATION_ERROR, message: HOSTILE });
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: HOSTILE }));
+    expectNoMarkup(container);
+
+    payment.unmount();
+    adapter.destroy();
+  });
+
+  it('gives each form on the page its own input ids', async () => {
+    const first = document.body.appendChild(document.createElement('div'));
+    const second = document.body.appendChild(document.createElement('div'));
+    const adapter = await createAdapter();
+
+    await adapter.createCardPayment(first, { amount: 100, onSubmit: vi.fn() });
+    await adapter.createCardPayment(second, { amount: 100, onSubmit: vi.fn() });
+
+    const ids = Array.from(document.querySelectorAll('[id]'), el => el.id);
+    expect(new Set(ids).size).toBe(10);
+    for (const container of [first, second]) {
+      for (const label of Array.from(container.querySelectorAll('label'))) {
+        expect(container.contains(document.getElementById(label.htmlFor))).toBe(true);
+      }
+    }
+
+    adapter.destroy();
+  });
+
+  it('submits the chosen installments while plans reload', async () => {
+    const container = document.body.appendChild(document.createElement('div'));
+    const adapter = await createAdapter();
+    const tokenize = vi.fn(async (card: CardData) => ({
+      token: 'token',
+      installments: card.installments || 1,
+      paymentMethodId: 'visa',
+      issuerId: '',
+      lastFourDigits: '1111',
+      cardholderName: card.holderName,
+      provider: 'PAGSEGURO'
+    }));
+    const payment = await adapter.createCardPayment(container, { amount: 300, onSubmit: vi.fn(), tokenize });
+    const select = container.querySelector('[name="installments"]') as HTMLSelectElement;
+    select.value = '3';
+    select.dispatchEvent(new Event('change'));
+    fillCard(container);
+
+    payment.updateAmount(400);
+    expect(select.disabled).toBe(true);
+    await payment.submit();
+
+    expect(tokenize).toHaveBeenCalledWith(expect.objectContaining({ installments: 3 }));
+    expect(select.value).toBe('3');
+
+    payment.unmount();
+    adapter.destroy();
+  });
+
+  it('rejects amounts in an unknown currency before rendering', async () => {
+    const container = document.body.appendChild(document.createElement('div'));
+    const adapter = await createAdapter();
+
+    await expect(adapter.createCardPayment(container, {
+      amount: { amount: 10000, currency: HOSTILE as any },
+      onSubmit: vi.fn()
+    })).rejects.toMatchObject({ code: ErrorCode.CONFIGURATION_ERROR });
+    expect(container.childNodes).toHaveLength(0);
+
+    adapter.destroy();
+  });
+});
@@ -3,8 +3,30 @@ import type {
   CardPaymentConfig,
   CardPaymentInstance,
   InstallmentOption,
-  PaymentData
+  PaymentData,
+  InstallmentRules,
+  Money,
+  CardData,
+  NetworkConfig
 } from '../types';
+import { getInstallmentPlans } from '../core/installments';
+import { KairosPaymentError, toPaymentError } from '../core/errors';
+import { ErrorCode } from '../core/errorCodes';
+import { request } from '../core/http';
+import { mapPagSeguroError } from './pspErrors';
+import { createInstallmentSelect } from '../components/InstallmentSelect';
+import { detectCardBrand, validateCard, getFirstCardError, normalizeCardData } from '../card/validation';
+import { maskCardNumberInput, syncCvvInput, applyMask, formatExpiry, getCardNumberPlaceholder } from '../card/masking';
+import type { CardBrandRule } from '../card/brands';
+import type { CardField } from '../card/validation';
+import { CardFormStateTracker } from '../card/formState';
+import { getMessages, getValidationMessage, DEFAULT_LOCALE } from '../i18n/messages';
+import type { Messages, MessageOverrides } from '../i18n/messages';
+import { formatMoney, formatInstallmentLabel } from '../i18n/format';
+import { toMoney } from '../core/money';
+import { loadScript } from '../dom/csp';
+import { h, uniqueId } from '../dom/elements';
+import type { DomSecurityOptions } from '../dom/csp';
 
 declare global {
   interface Window {
@@ -22,6 +44,16 @@ export class PagSeguroAdapter implements PspAdapter {
 
   private publicKey: string = '';
   private environment: string = 'sandbox';
+  private apiUrl: string = '';
+  private tenantId: string = '';
+  private merchantId: string = '';
+  private installmentRules?: InstallmentRules;
+  private locale: string = DEFAULT_LOCALE;
+  private messages: Messages = getMessages();
+  private domOptions: DomSecurityOptions = {};
+  private network: NetworkConfig = {};
+  /** Aborted on destroy, cancelling tokenization and installment requests in flight */
+  private requests = new AbortController();
 
   /**
    * Load PagSeguro SDK script dynamically.
@@ -35,19 +67,22 @@ export class PagSeguroAdapter implements PspAdapter {
       ? 'https://assets.pagseguro.com.br/checkout-sdk-js/rc/dist/browser/pagseguro.min.js'
       : 'https://stc.sandbox.pagseguro.uol.com.br/pagseguro/api/v2/checkout/pagseguro.directpayment.js';
 
-    return new Promise((resolve, reject) => {
-      const script = document.createElement('script');
-      script.src = scriptUrl;
-      script.async = true;
-      script.onload = () => resolve();
-      script.onerror = () => reject(new Error('Failed to load PagSeguro SDK'));
-      document.head.appendChild(script);
-    });
+    return loadScript(scriptUrl, 'Failed to load PagSeguro SDK', this.domOptions);
   }
 
   async init(publicKey: string, options?: Record<string, unknown>): Promise<void> {
     this.publicKey = publicKey;
     this.environment = (options?.environment as string) || 'sandbox';
+    this.apiUrl = (options?.apiUrl as string) || 'https://api.kairoshub.tech';
+    this.tenantId = (options?.tenantId as string) || '';
+    this.merchantId = (options?.merchantId as string) || '';
+    this.locale = (options?.locale as string) || DEFAULT_LOCALE;
+    this.messages = getMessages(this.locale, options?.messages as MessageOverrides | undefined);
+    this.domOptions = {
+      nonce: (options?.cspNonce as string) || undefined,
+      styleMode: options?.styleMode as DomSecurityOptions['styleMode']
+    };
+    this.network = (options?.network as NetworkConfig | undefined) || {};
 
     await this.loadScript();
 
@@ -64,117 +99,284 @@ export class PagSeguroAdapter implements PspAdapter {
       : container;
 
     if (!containerEl) {
-      throw new Error(`Container not found: ${container}`);
+      throw new KairosPaymentError({ code: ErrorCode.CONFIGURATION_ERROR, message: `Container not found: ${container}` });
     }
 
+    // For getInstallments(); the form itself loads plans with its own rules
+    this.installmentRules = config.installmentRules;
+    let amount = toMoney(config.amount);
+
     // PagSeguro doesn't have a pre-built form like MercadoPago Bricks
     // We need to create our own form and use their tokenization API
-    const formHtml = this.createFormHtml(config);
-    containerEl.innerHTML = formHtml;
+    const form = this.buildForm(config, amount);
+    containerEl.replaceChildren(form);
+
+    const cardNumberInput = form.querySelector('[name="cardNumber"]') as HTMLInputElement;
+    const expiryInput = form.querySelector('[name="expiry"]') as HTMLInputElement;
+    const cvvInput = form.querySelector('[name="cvv"]') as HTMLInputElement;
+    const nameInput = form.querySelector('[name="cardholderName"]') as HTMLInputElement;
+    const installmentsSelect = form.querySelector('[name="installments"]') as HTMLSelectElement | null;
+
+    // Brand-aware masks: number grouping, expiry MM/AA, CVV length (4 for Amex)
+    let brand: CardBrandRule | null = null;
+    cardNumberInput.addEventListener('input', () => {
+      brand = maskCardNumberInput(cardNumberInput);
+      cardNumberInput.placeholder = getCardNumberPlaceholder(brand);
+      syncCvvInput(cvvInput, brand);
+    });
+    expiryInput.addEventListener('input', () => {
+      applyMask(expiryInput, formatExpiry);
+    });
+    cvvInput.addEventListener('input', () => {
+      syncCvvInput(cvvInput, brand);
+    });
 
-    const form = containerEl.querySelector('form') as HTMLFormElement;
+    // Installments follow the BIN and amount
+    const installments = installmentsSelect
+      ? createInstallmentSelect(installmentsSelect, {
+          amount,
+          maxInstallments: config.maxInstallments || 12,
+          loadInstallments: (planAmount, bin) => this.loadInstallments(planAmount, bin, config.installmentRules),
+          formatOption: opt => formatInstallmentLabel(opt, this.messages, this.locale),
+          loadingLabel: this.messages.installmentsLoading,
+          onLoad: config.onInstallmentsLoaded
+        })
+      : null;
+
+    // Live validation: emit FormState on input, report field errors once visited
+    const fieldInputs: Record<CardField, HTMLInputElement> = {
+      cardNumber: cardNumberInput,
+      expiry: expiryInput,
+      cvv: cvvInput,
+      cardholderName: nameInput
+    };
+    const formState = new CardFormStateTracker(
+      () => ({
+        number: cardNumberInput.value,
+        expiry: expiryInput.value,
+        cvv: cvvInput.value,
+        holderName: nameInput.value
+      }),
+      config.onChange,
+      this.messages
+    );
+    const refreshState = () => {
+      const state = formState.emit();
+      (Object.keys(fieldInputs) as CardField[]).forEach(field => {
+        fieldInputs[field].setAttribute('aria-invalid', state.errors[field] ? 'true' : 'false');
+      });
+      installments?.setBin(state.bin || '');
+    };
 
-    form.addEventListener('submit', async (e) => {
-      e.preventDefault();
+    (Object.keys(fieldInputs) as CardField[]).forEach(field => {
+      fieldInputs[field].addEventListener('input', refreshState);
+      fieldInputs[field].addEventListener('blur', () => {
+        formState.touch(field);
+        refreshState();
+      });
+    });
+
+    await installments?.refresh();
+
+    // Validate, tokenize and hand PaymentData to onSubmit. Shared by the form's
+    // submit button and the programmatic submit(); rejects with KairosPaymentError.
+    let submitting = false;
+    const processSubmit = async (): Promise<PaymentData> => {
+      if (submitting) {
+        throw new KairosPaymentError({ code: ErrorCode.SUBMIT_IN_PROGRESS, message: 'Payment is already being submitted' });
+      }
+
+      const fail = (error: KairosPaymentError): never => {
+        config.onError?.(error.toJSON());
+        throw error;
+      };
+
+      formState.touchAll();
+      refreshState();
+
+      const formData = new FormData(form);
+      const validationError = this.validate(formData);
+      if (validationError) {
+        fail(new KairosPaymentError({
+          code: ErrorCode.VALIDATION_ERROR,
+          message: getValidationMessage(validationError.code, this.messages),
+          field: validationError.field
+        }));
+      }
+
+      submitting = true;
+      formState.setSubmitting(true);
+      refreshState();
 
       try {
-        const formData = new FormData(form);
-        const token = await this.tokenizeCard(formData);
-
-        const paymentData: PaymentData = {
-          token,
-          installments: parseInt(formData.get('installments') as string) || 1,
-          paymentMethodId: 'credit_card',
-          issuerId: '',
-          lastFourDigits: (formData.get('cardNumber') as string)?.slice(-4) || '',
-          cardholderName: formData.get('cardholderName') as string || '',
-          provider: this.provider
+        // Charge the installments the customer chose, not the loading placeholder
+        await installments?.ready();
+        const [expMonth, expYear] = ((formData.get('expiry') as string) || '').split('/');
+
+        const card: CardData = {
+          number: (formData.get('cardNumber') as string) || '',
+          holderName: (formData.get('cardholderName') as string) || '',
+          expirationMonth: expMonth || '',
+          expirationYear: expYear || '',
+          cvv: (formData.get('cvv') as string) || '',
+          installments: installments ? installments.getValue() : 1
         };
 
-        await config.onSubmit(paymentData);
-      } catch (error: any) {
-        config.onError?.({
-          code: 'TOKENIZATION_ERROR',
-          message: error.message || 'Failed to tokenize card',
-          cause: error
-        });
+        let paymentData: PaymentData;
+        try {
+          paymentData = config.tokenize ? await config.tokenize(card) : await this.tokenizeCard(card);
+        } catch (error) {
+          return fail(toPaymentError(error, ErrorCode.TOKENIZATION_ERROR, 'Failed to tokenize card'));
+        }
+
+        try {
+          await config.onSubmit(paymentData);
+        } catch (error) {
+          return fail(toPaymentError(error, ErrorCode.SUBMIT_ERROR, this.messages.processingError));
+        }
+
+        return paymentData;
+      } finally {
+        submitting = false;
+        formState.setSubmitting(false);
+        refreshState();
       }
+    };
+
+    form.addEventListener('submit', (e) => {
+      e.preventDefault();
+      // Errors were already reported through onError
+      processSubmit().catch(() => {});
     });
 
     config.onReady?.();
 
     return {
-      updateAmount: (amount: number) => {
+      updateAmount: (nextAmount: number | Money) => {
+        // Plain numbers keep the form's currency
+        amount = toMoney(nextAmount, amount.currency);
         const amountEl = form.querySelector('[data-amount]');
         if (amountEl) {
-          amountEl.textContent = `R$ ${amount.toFixed(2)}`;
+          amountEl.textContent = formatMoney(amount, this.locale);
         }
+        installments?.setAmount(amount);
       },
-      submit: async () => {
-        form.dispatchEvent(new Event('submit'));
-        return {} as PaymentData; // Will be handled by onSubmit
-      },
+      submit: processSubmit,
       unmount: () => {
-        containerEl.innerHTML = '';
+        installments?.destroy();
+        containerEl.replaceChildren();
       }
     };
   }
 
-  private createFormHtml(config: CardPaymentConfig): string {
-    return `
-      <form class="kairos-card-form" data-kairos-form>
-        <div class="kairos-field">
-          <label for="cardNumber">Numero do Cartao</label>
-          <input type="text" id="cardNumber" name="cardNumber"
-                 placeholder="0000 0000 0000 0000"
-                 maxlength="19" required />
-        </div>
-
-        <div class="kairos-field-row">
-          <div class="kairos-field">
-            <label for="expiry">Validade</label>
-            <input type="text" id="expiry" name="expiry"
-                   placeholder="MM/AA" maxlength="5" required />
-          </div>
-          <div class="kairos-field">
-            <label for="cvv">CVV</label>
-            <input type="text" id="cvv" name="cvv"
-                   placeholder="123" maxlength="3" required />
-          </div>
-        </div>
-
-        <div class="kairos-field">
-          <label for="cardholderName">Nome no Cartao</label>
-          <input type="text" id="cardholderName" name="cardholderName"
-                 placeholder="NOME COMO NO CARTAO" required />
-        </div>
-
-        ${config.showInstallments !== false ? `
-        <div class="kairos-field">
-          <label for="installments">Parcelas</label>
-          <select id="installments" name="installments">
-            <option value="1">1x de R$ ${config.amount.toFixed(2)}</option>
-          </select>
-        </div>
-        ` : ''}
-
-        <button type="submit" class="kairos-submit-btn">
-          Pagar <span data-amount>R$ ${config.amount.toFixed(2)}</span>
-        </button>
-      </form>
-    `;
+  private buildForm(config: CardPaymentConfig, amount: Money): HTMLFormElement {
+    const m = this.messages;
+    const amountFormatted = formatMoney(amount, this.locale);
+    // Several forms can share a page: ids (and label fors) are per form
+    const formId = uniqueId('kairos-pagseguro');
+    const ids = {
+      cardNumber: `${formId}-cardNumber`,
+      expiry: `${formId}-expiry`,
+      cvv: `${formId}-cvv`,
+      cardholderName: `${formId}-cardholderName`,
+      installments: `${formId}-installments`
+    };
+
+    return h('form', { class: 'kairos-card-form', 'data-kairos-form': true }, [
+      h('div', { class: 'kairos-field' }, [
+        h('label', { for: ids.cardNumber }, [m.cardNumberLabel]),
+        h('input', {
+          type: 'text', id: ids.cardNumber, name: 'cardNumber',
+          inputmode: 'numeric', autocomplete: 'cc-number',
+          placeholder: '0000 0000 0000 0000',
+          maxlength: 23, required: true
+        })
+      ]),
+
+      h('div', { class: 'kairos-field-row' }, [
+        h('div', { class: 'kairos-field' }, [
+          h('label', { for: ids.expiry }, [m.expiryLabel]),
+          h('input', {
+            type: 'text', id: ids.expiry, name: 'expiry', inputmode: 'numeric',
+            placeholder: m.expiryPlaceholder, maxlength: 5, required: true
+          })
+        ]),
+        h('div', { class: 'kairos-field' }, [
+          h('label', { for: ids.cvv }, [m.cvvLabel]),
+          h('input', {
+            type: 'text', id: ids.cvv, name: 'cvv', inputmode: 'numeric',
+            placeholder: '123', maxlength: 3, required: true
+          })
+        ])
+      ]),
+
+      h('div', { class: 'kairos-field' }, [
+        h('label', { for: ids.cardholderName }, [m.cardholderNameLabel]),
+        h('input', {
+          type: 'text', id: ids.cardholderName, name: 'cardholderName',
+          placeholder: m.cardholderNamePlaceholder, required: true
+        })
+      ]),
+
+      config.showInstallments !== false && h('div', { class: 'kairos-field' }, [
+        h('label', { for: ids.installments }, [m.installmentsLabel]),
+        h('select', { id: ids.installments, name: 'installments' }, [
+          h('option', { value: '1' }, [`1x ${amountFormatted}`])
+        ])
+      ]),
+
+      h('button', { type: 'submit', class: 'kairos-submit-btn' }, [
+        `${m.payButton} `,
+        h('span', { 'data-amount': true }, [amountFormatted])
+      ])
+    ]);
+  }
+
+  private validate(formData: FormData) {
+    return getFirstCardError(validateCard({
+      number: (formData.get('cardNumber') as string) || '',
+      expiry: (formData.get('expiry') as string) || '',
+      cvv: (formData.get('cvv') as string) || '',
+      holderName: (formData.get('cardholderName') as string) || ''
+    }));
+  }
+
+  /** The form collects the card data in the page, so it tokenizes through `config.tokenize`. */
+  supportsRouting(): boolean {
+    return true;
+  }
+
+  /**
+   * Tokenize raw card data with PagSeguro (no form rendered).
+   */
+  async tokenizeCard(cardData: CardData): Promise<PaymentData> {
+    const card = normalizeCardData(cardData);
+
+    let token: string;
+    try {
+      token = await this.createCardToken(card);
+    } catch (error) {
+      throw toPaymentError(error, ErrorCode.TOKENIZATION_ERROR, 'Failed to tokenize card');
+    }
+
+    return {
+      token,
+      installments: card.installments || 1,
+      paymentMethodId: detectCardBrand(card.number) || 'credit_card',
+      issuerId: '',
+      lastFourDigits: card.number.slice(-4),
+      cardholderName: card.holderName,
+      provider: this.provider
+    };
   }
 
-  private async tokenizeCard(formData: FormData): Promise<string> {
+  private async createCardToken(card: CardData): Promise<string> {
     // PagSeguro card tokenization
     // In a real implementation, this would call PagSeguro's API
-    const cardNumber = (formData.get('cardNumber') as string)?.replace(/\s/g, '');
-    const [expMonth, expYear] = (formData.get('expiry') as string)?.split('/') || [];
-    const cvv = formData.get('cvv') as string;
-    const cardholderName = formData.get('cardholderName') as string;
-
     // Call PagSeguro tokenization API
-    const response = await fetch('https://api.pagseguro.com/public-keys/card', {
+    // A POST is sent once: network errors and timeouts aren't retried
+    const response = await request<{ encrypted: string }>('https://api.pagseguro.com/public-keys/card', {
+      ...this.network,
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -182,53 +384,47 @@ export class PagSeguroAdapter implements PspAdapter {
       },
       body: JSON.stringify({
         card: {
-          number: cardNumber,
-          exp_month: expMonth,
-          exp_year: `20${expYear}`,
-          security_code: cvv,
+          number: card.number,
+          exp_month: card.expirationMonth,
+          exp_year: card.expirationYear,
+          security_code: card.cvv,
           holder: {
-            name: cardholderName
+            name: card.holderName
           }
         }
-      })
+      }),
+      signal: this.requests.signal
     });
 
-    if (!response.ok) {
-      throw new Error('Failed to tokenize card with PagSeguro');
+    if (!response.ok || !response.data) {
+      throw mapPagSeguroError(response.status, response.data);
     }
 
-    const data = await response.json();
-    return data.encrypted;
+    return response.data.encrypted;
   }
 
-  async getInstallments(amount: number, bin: string): Promise<InstallmentOption[]> {
-    // PagSeguro installment calculation
-    // This would typically be done via your backend
-    const maxInstallments = 12;
-    const options: InstallmentOption[] = [];
-
-    for (let i = 1; i <= maxInstallments; i++) {
-      const interestFree = i <= 3;
-      const rate = interestFree ? 0 : 0.0199; // 1.99% per month
-      const totalAmount = interestFree ? amount : amount * Math.pow(1 + rate, i);
-      const installmentAmount = totalAmount / i;
-
-      if (installmentAmount >= 5) { // Minimum R$ 5 per installment
-        options.push({
-          installments: i,
-          installmentAmount: Math.round(installmentAmount * 100) / 100,
-          totalAmount: Math.round(totalAmount * 100) / 100,
-          interestFree,
-          interestRate: interestFree ? 0 : rate * 100,
-          recommended: i === 1
-        });
-      }
-    }
+  async getInstallments(amount: number | Money, bin: string): Promise<InstallmentOption[]> {
+    return this.loadInstallments(amount, bin, this.installmentRules);
+  }
 
-    return options;
+  /** Installment plans with a given form's rules (several forms can share the adapter) */
+  private loadInstallments(amount: number | Money, bin: string, rules?: InstallmentRules): Promise<InstallmentOption[]> {
+    // Plans come from Kairos (merchant rates), not from PagSeguro directly
+    return getInstallmentPlans(
+      {
+        apiUrl: this.apiUrl,
+        tenantId: this.tenantId,
+        merchantId: this.merchantId,
+        network: this.network,
+        signal: this.requests.signal
+      },
+      toMoney(amount),
+      bin,
+      rules
+    );
   }
 
   destroy(): void {
-    // Cleanup if needed
+    this.requests.abort();
   }
 }
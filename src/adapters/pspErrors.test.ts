@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { mapMercadoPagoBricksError, mapMercadoPagoCardTokenError, mapPagSeguroError } from './pspErrors';
+import { KairosPaymentError } from '../core/errors';
+import { ErrorCode, getErrorDefinition, getErrorMessage } from '../core/errorCodes';
+import { getMessages } from '../i18n/messages';
+
+describe('mapMercadoPagoBricksError', () => {
+  it('maps listed causes with their field', () => {
+    const error = mapMercadoPagoBricksError({
+      type: 'non_critical',
+      cause: 'get_payment_installments_failed',
+      message: 'Installments request failed'
+    });
+
+    expect(error).toBeInstanceOf(KairosPaymentError);
+    expect(error.toJSON()).toMatchObject({
+      code: ErrorCode.PROVIDER_UNAVAILABLE,
+      category: 'provider',
+      retryable: true,
+      field: 'installments',
+      message: 'Installments request failed'
+    });
+  });
+
+  it('maps configuration mistakes as non-retryable', () => {
+    const error = mapMercadoPagoBricksError({ type: 'critical', cause: 'container_not_found', message: 'x' });
+    expect(error).toMatchObject({ code: ErrorCode.CONFIGURATION_ERROR, category: 'configuration', retryable: false });
+  });
+
+  it('falls back by severity for unlisted causes', () => {
+    expect(mapMercadoPagoBricksError({ type: 'critical', cause: 'something_new' }).code).toBe(ErrorCode.INIT_ERROR);
+    expect(mapMercadoPagoBricksError({ type: 'non_critical', cause: 'something_new' }).code)
+      .toBe(ErrorCode.UNKNOWN_ERROR);
+  });
+
+  it("doesn't match Object.prototype members", () => {
+    expect(mapMercadoPagoBricksError({ type: 'critical', cause: 'constructor' }).code).toBe(ErrorCode.INIT_ERROR);
+    expect(mapMercadoPagoBricksError({ type: 'non_critical', cause: '__proto__' }).code).toBe(ErrorCode.UNKNOWN_ERROR);
+  });
+
+  it('keeps the raw error as cause', () => {
+    const raw = { type: 'critical', cause: 'settings_empty', message: 'Settings empty' };
+    expect(mapMercadoPagoBricksError(raw).cause).toBe(raw);
+  });
+});
+
+describe('mapMercadoPagoCardTokenError', () => {
+  it('maps the first listed cause code to a field validation error', () => {
+    const error = mapMercadoPagoCardTokenError({
+      message: 'Bad request',
+      cause: [{ code: '999', description: 'other' }, { code: 'E302', description: 'invalid security code' }]
+    });
+
+    expect(error).toMatchObject({
+      code: ErrorCode.VALIDATION_ERROR,
+      field: 'cvv',
+      message: 'invalid security code',
+      retryable: false
+    });
+  });
+
+  it('accepts numeric codes and bare cause arrays', () => {
+    expect(mapMercadoPagoCardTokenError([{ code: 208 }]).field).toBe('expiry');
+  });
+
+  it("doesn't match Object.prototype members", () => {
+    const error = mapMercadoPagoCardTokenError({ cause: [{ code: 'toString', description: 'x' }] });
+    expect(error).toMatchObject({ code: ErrorCode.TOKENIZATION_ERROR, field: undefined });
+  });
+
+  it('falls back to a tokenization error', () => {
+    const error = mapMercadoPagoCardTokenError(new Error('Timeout'));
+    expect(error).toMatchObject({ code: ErrorCode.TOKENIZATION_ERROR, message: 'Timeout', retryable: true });
+  });
+});
+
+describe('mapPagSeguroError', () => {
+  it('maps public-key API parameter errors', () => {
+    const error = mapPagSeguroError(400, {
+      error_messages: [{ code: '40002', description: 'invalid_parameter', parameter_name: 'card.exp_month' }]
+    });
+    expect(error).toMatchObject({ code: ErrorCode.VALIDATION_ERROR, field: 'expiry', message: 'invalid_parameter' });
+  });
+
+  it('maps encryptCard error codes', () => {
+    const error = mapPagSeguroError(undefined, { errors: [{ code: 'INVALID_NUMBER', message: 'invalid number' }] });
+    expect(error).toMatchObject({ code: ErrorCode.VALIDATION_ERROR, field: 'cardNumber', message: 'invalid number' });
+  });
+
+  it("doesn't match Object.prototype members", () => {
+    const error = mapPagSeguroError(503, {
+      error_messages: [{ code: 'constructor', description: 'x', parameter_name: 'hasOwnProperty' }]
+    });
+    expect(error).toMatchObject({ code: ErrorCode.PROVIDER_UNAVAILABLE, field: undefined });
+  });
+
+  it('classifies unlisted failures by HTTP status', () => {
+    expect(mapPagSeguroError(401, null).code).toBe(ErrorCode.CONFIGURATION_ERROR);
+    expect(mapPagSeguroError(503, {}).code).toBe(ErrorCode.PROVIDER_UNAVAILABLE);
+    expect(mapPagSeguroError(429, {}).code).toBe(ErrorCode.PROVIDER_UNAVAILABLE);
+    expect(mapPagSeguroError(400, { error_messages: [{ code: 'X', description: 'unknown' }] }))
+      .toMatchObject({ code: ErrorCode.TOKENIZATION_ERROR, message: 'unknown' });
+  });
+});
+
+describe('error taxonomy', () => {
+  it('treats codes outside the taxonomy as UNKNOWN_ERROR', () => {
+    expect(getErrorDefinition('NOT_A_CODE')).toBe(getErrorDefinition(ErrorCode.UNKNOWN_ERROR));
+  });
+
+  it('gives catalog messages, per field for validation errors', () => {
+    const messages = getMessages('en-US');
+
+    expect(getErrorMessage({ code: ErrorCode.VALIDATION_ERROR, field: 'cvv' }, messages)).toBe(messages.invalidCvv);
+    expect(getErrorMessage({ code: ErrorCode.TIMEOUT }, messages)).toBe(messages.errorTimeout);
+    expect(getErrorMessage({ code: 'NOT_A_CODE' }, messages)).toBe(messages.errorUnknown);
+    expect(getErrorMessage({ code: ErrorCode.VALIDATION_ERROR, field: 'constructor' }, messages))
+      .toBe(messages.errorValidation);
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * PSP error mapping — translates MercadoPago and PagSeguro error codes into
+ * the SDK taxonomy (core/errorCodes.ts), with the card field they concern.
+ *
+ * The PSP's own message is kept in `message` and the raw error in `cause`;
+ * codes missing from the tables fall back to the adapter's default code.
+ */
+
+import { ErrorCode } from '../core/errorCodes';
+import { KairosPaymentError } from '../core/errors';
+
+export interface PspErrorMapping {
+  code: ErrorCode;
+  field?: string;
+}
+
+/** MercadoPago Bricks `onError` causes */
+export const MERCADOPAGO_BRICKS_ERRORS: Record<string, PspErrorMapping> = {
+  already_initialized: { code: ErrorCode.CONFIGURATION_ERROR },
+  amount_is_not_number: { code: ErrorCode.CONFIGURATION_ERROR },
+  container_not_found: { code: ErrorCode.CONFIGURATION_ERROR },
+  incorrect_initialization: { code: ErrorCode.CONFIGURATION_ERROR },
+  invalid_sdk_instance: { code: ErrorCode.CONFIGURATION_ERROR },
+  missing_amount_property: { code: ErrorCode.CONFIGURATION_ERROR },
+  missing_container_id: { code: ErrorCode.CONFIGURATION_ERROR },
+  missing_locale_property: { code: ErrorCode.CONFIGURATION_ERROR },
+  missing_required_callbacks: { code: ErrorCode.CONFIGURATION_ERROR },
+  settings_empty: { code: ErrorCode.CONFIGURATION_ERROR },
+  unsupported_payment_type: { code: ErrorCode.CONFIGURATION_ERROR },
+  no_internet_connection: { code: ErrorCode.NETWORK_ERROR },
+  fields_setup_failed: { code: ErrorCode.INIT_ERROR },
+  fields_setup_failed_after_3_tries: { code: ErrorCode.INIT_ERROR },
+  get_config_assets_failed: { code: ErrorCode.INIT_ERROR },
+  payment_brick_initialization_failed: { code: ErrorCode.INIT_ERROR },
+  get_card_bin_payment_methods_failed: { code: ErrorCode.PROVIDER_UNAVAILABLE, field: 'cardNumber' },
+  get_card_issuers_failed: { code: ErrorCode.PROVIDER_UNAVAILABLE, field: 'cardNumber' },
+  get_identification_types_failed: { code: ErrorCode.PROVIDER_UNAVAILABLE, field: 'identification' },
+  get_payment_installments_failed: { code: ErrorCode.PROVIDER_UNAVAILABLE, field: 'installments' },
+  get_payment_methods_failed: { code: ErrorCode.PROVIDER_UNAVAILABLE },
+  card_token_creation_failed: { code: ErrorCode.TOKENIZATION_ERROR },
+  secure_fields_card_token_creation_failed: { code: ErrorCode.TOKENIZATION_ERROR },
+  empty_installments: { code: ErrorCode.VALIDATION_ERROR, field: 'installments' },
+  invalid_payment_method: { code: ErrorCode.VALIDATION_ERROR, field: 'cardNumber' },
+  missing_payment_information: { code: ErrorCode.VALIDATION_ERROR },
+};
+
+/** MercadoPago `createCardToken` cause codes */
+export const MERCADOPAGO_CARD_TOKEN_ERRORS: Record<string, PspErrorMapping> = {
+  '205': { code: ErrorCode.VALIDATION_ERROR, field: 'cardNumber' },
+  'E301': { code: ErrorCode.VALIDATION_ERROR, field: 'cardNumber' },
+  '208': { code: ErrorCode.VALIDATION_ERROR, field: 'expiry' },
+  '209': { code: ErrorCode.VALIDATION_ERROR, field: 'expiry' },
+  '325': { code: ErrorCode.VALIDATION_ERROR, field: 'expiry' },
+  '326': { code: ErrorCode.VALIDATION_ERROR, field: 'expiry' },
+  '224': { code: ErrorCode.VALIDATION_ERROR, field: 'cvv' },
+  'E302': { code: ErrorCode.VALIDATION_ERROR, field: 'cvv' },
+  '221': { code: ErrorCode.VALIDATION_ERROR, field: 'cardholderName' },
+  '316': { code: ErrorCode.VALIDATION_ERROR, field: 'cardholderName' },
+  '212': { code: ErrorCode.VALIDATION_ERROR, field: 'identification' },
+  '213': { code: ErrorCode.VALIDATION_ERROR, field: 'identification' },
+  '214': { code: ErrorCode.VALIDATION_ERROR, field: 'identification' },
+  '322': { code: ErrorCode.VALIDATION_ERROR, field: 'identification' },
+  '323': { code: ErrorCode.VALIDATION_ERROR, field: 'identification' },
+  '324': { code: ErrorCode.VALIDATION_ERROR, field: 'identification' },
+};
+
+/**
+ * PagSeguro card encryption (`PagSeguro.encryptCard`) error codes and
+ * public-key API `error_messages` parameters
+ */
+export const PAGSEGURO_ERRORS: Record<string, PspErrorMapping> = {
+  INVALID_NUMBER: { code: ErrorCode.VALIDATION_ERROR, field: 'cardNumber' },
+  INVALID_SECURITY_CODE: { code: ErrorCode.VALIDATION_ERROR, field: 'cvv' },
+  INVALID_EXPIRATION_MONTH: { code: ErrorCode.VALIDATION_ERROR, field: 'expiry' },
+  INVALID_EXPIRATION_YEAR: { code: ErrorCode.VALIDATION_ERROR, field: 'expiry' },
+  INVALID_HOLDER: { code: ErrorCode.VALIDATION_ERROR, field: 'cardholderName' },
+  INVALID_PUBLIC_KEY: { code: ErrorCode.CONFIGURATION_ERROR },
+  'card.number': { code: ErrorCode.VALIDATION_ERROR, field: 'cardNumber' },
+  'card.security_code': { code: ErrorCode.VALIDATION_ERROR, field: 'cvv' },
+  'card.exp_month': { code: ErrorCode.VALIDATION_ERROR, field: 'expiry' },
+  'card.exp_year': { code: ErrorCode.VALIDATION_ERROR, field: 'expiry' },
+  'card.holder.name': { code: ErrorCode.VALIDATION_ERROR, field: 'cardholderName' },
+};
+
+/**
+ * Table entry for a PSP-supplied code. Only the table's own keys count, so
+ * codes like 'constructor' fall through to the default instead of matching
+ * Object.prototype members.
+ */
+function lookup(table: Record<string, PspErrorMapping>, key: unknown): PspErrorMapping | undefined {
+  return typeof key === 'string' && Object.prototype.hasOwnProperty.call(table, key) ? table[key] : undefined;
+}
+
+/** Translate a MercadoPago Bricks `onError` payload ({ type, cause, message }). */
+export function mapMercadoPagoBricksError(error: any): KairosPaymentError {
+  const mapping = lookup(MERCADOPAGO_BRICKS_ERRORS, error?.cause)
+    // Unlisted critical errors leave the Brick unusable
+    || { code: error?.type === 'critical' ? ErrorCode.INIT_ERROR : ErrorCode.UNKNOWN_ERROR };
+  return new KairosPaymentError({
+    ...mapping,
+    message: error?.message || 'An error occurred',
+    cause: error,
+  });
+}
+
+/** Translate a `createCardToken` rejection (`cause: [{ code, description }]`). */
+export function mapMercadoPagoCardTokenError(error: any): KairosPaymentError {
+  const causes: any[] = Array.isArray(error?.cause) ? error.cause : Array.isArray(error) ? error : [];
+  const cause = causes.find(c => lookup(MERCADOPAGO_CARD_TOKEN_ERRORS, String(c?.code)));
+  const mapping = (cause && lookup(MERCADOPAGO_CARD_TOKEN_ERRORS, String(cause.code)))
+    || { code: ErrorCode.TOKENIZATION_ERROR };
+  return new KairosPaymentError({
+    ...mapping,
+    message: cause?.description || error?.message || 'Failed to tokenize card',
+    cause: error,
+  });
+}
+
+/**
+ * Translate a PagSeguro failure: an HTTP status plus the response body
+ * (`{ error_messages: [{ code, description, parameter_name }] }`), or an
+ * `encryptCard` result (`{ errors: [{ code, message }] }`).
+ */
+export function mapPagSeguroError(status: number | undefined, body: any): KairosPaymentError {
+  const errors: any[] = body?.error_messages || body?.errors || [];
+  const mappingOf = (e: any) => lookup(PAGSEGURO_ERRORS, e?.parameter_name) || lookup(PAGSEGURO_ERRORS, e?.code);
+  const match = errors.find(mappingOf);
+  let mapping: PspErrorMapping = (match && mappingOf(match)) || { code: ErrorCode.TOKENIZATION_ERROR };
+
+  if (!match && status !== undefined) {
+    if (status === 401 || status === 403) {
+      mapping = { code: ErrorCode.CONFIGURATION_ERROR };
+    } else if (status === 408 || status === 429 || status >= 500) {
+      mapping = { code: ErrorCode.PROVIDER_UNAVAILABLE };
+    }
+  }
+
+  const detail = match || errors[0];
+  return new KairosPaymentError({
+    ...mapping,
+    message: detail?.description || detail?.message || 'Failed to tokenize card with PagSeguro',
+    cause: body,
+  });
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { findCardBrand, getCardBrandRule, matchBinRange } from './brands';
+
+describe('findCardBrand', () => {
+  it.each([
+    ['4111111111111111', 'visa'],
+    ['5555555555554444', 'mastercard'],
+    ['2221000000000009', 'mastercard'],
+    ['378282246310005', 'amex'],
+    ['30569309025904', 'diners'],
+    ['6011111111111117', 'discover'],
+    ['3530111333300000', 'jcb'],
+    ['213100000000001', 'jcb'],
+    ['6759649826438453', 'maestro'],
+  ])('detects %s as %s', (number, brand) => {
+    expect(findCardBrand(number)?.brand).toBe(brand);
+  });
+
+  it('prefers the co-branded Elo, Hipercard and Aura ranges over the broad ones', () => {
+    expect(findCardBrand('4011780000000006')?.brand).toBe('elo');
+    expect(findCardBrand('5067000000000000')?.brand).toBe('elo');
+    expect(findCardBrand('6362970000457013')?.brand).toBe('elo');
+    expect(findCardBrand('6062825624254001')?.brand).toBe('hipercard');
+    expect(findCardBrand('5078000000000000001')?.brand).toBe('aura');
+  });
+
+  it('ignores formatting and detects from partial numbers', () => {
+    expect(findCardBrand('4111 11')?.brand).toBe('visa');
+    expect(findCardBrand('37')?.brand).toBe('amex');
+  });
+
+  it('returns null for unknown or empty input', () => {
+    expect(findCardBrand('')).toBeNull();
+    expect(findCardBrand('9999')).toBeNull();
+  });
+
+  it('uses 15-digit lengths for the legacy JCB ranges only', () => {
+    expect(findCardBrand('2131')?.lengths).toEqual([15]);
+    expect(findCardBrand('1800')?.lengths).toEqual([15]);
+    expect(findCardBrand('3528')?.lengths).toEqual([16, 17, 18, 19]);
+  });
+});
+
+describe('getCardBrandRule', () => {
+  it('looks up rules by brand identifier', () => {
+    expect(getCardBrandRule('amex')?.cvvLength).toBe(4);
+    expect(getCardBrandRule('unknown')).toBeNull();
+  });
+});
+
+describe('matchBinRange', () => {
+  it('returns the prefix length for single prefixes', () => {
+    expect(matchBinRange('401178123', '401178')).toBe(6);
+    expect(matchBinRange('4011', '401178')).toBe(0);
+  });
+
+  it('matches inclusive ranges of equal-length prefixes', () => {
+    expect(matchBinRange('650031', ['650031', '650033'])).toBe(6);
+    expect(matchBinRange('650033', ['650031', '650033'])).toBe(6);
+    expect(matchBinRange('650034', ['650031', '650033'])).toBe(0);
+    expect(matchBinRange('6500', ['650031', '650033'])).toBe(0);
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Card brand table — BIN ranges and per-brand formatting/validation rules.
+ *
+ * Ranges are matched against the leading digits of the PAN. When several
+ * entries match, the longest (most specific) prefix wins, and ties are broken
+ * by table order. This lets narrow co-branded ranges (Elo, Hipercard, Aura)
+ * take precedence over the broad Visa/Mastercard/Discover/Maestro ranges they
+ * overlap with.
+ *
+ * Sources: issuer BIN publications from Elo, Hipercard and the card networks.
+ * Table order matters for equal-length matches (Aura before Maestro); prefer
+ * explicit ranges over wildcards. A brand whose ranges differ in length or
+ * format has one entry per variant (JCB).
+ */
+
+export type CardBrand =
+  | 'visa'
+  | 'mastercard'
+  | 'amex'
+  | 'elo'
+  | 'hipercard'
+  | 'aura'
+  | 'diners'
+  | 'discover'
+  | 'jcb'
+  | 'maestro';
+
+/** A single prefix ('4011') or an inclusive range of equal-length prefixes (['650031', '650033']). */
+export type BinRange = string | [string, string];
+
+export interface CardBrandRule {
+  /** Brand identifier (matches MercadoPago payment_method_id where applicable) */
+  brand: CardBrand;
+
+  /** Human-readable brand name */
+  displayName: string;
+
+  /** BIN prefixes / ranges owned by this brand */
+  ranges: BinRange[];
+
+  /** Valid PAN lengths */
+  lengths: number[];
+
+  /** Security code length */
+  cvvLength: number;
+
+  /** Digit positions after which a space is inserted when formatting */
+  gaps: number[];
+
+  /** Whether the PAN carries a Luhn check digit */
+  luhn: boolean;
+}
+
+export const CARD_BRANDS: readonly CardBrandRule[] = [
+  {
+    brand: 'elo',
+    displayName: 'Elo',
+    ranges: [
+      '401178', '401179', '431274', '438935', '451416', '457393', '457631', '457632',
+      '504175', ['506699', '506778'], ['509000', '509999'],
+      '627780', '636297', '636368',
+      ['650031', '650033'], ['650035', '650051'], ['650405', '650439'],
+      ['650485', '650538'], ['650541', '650598'], ['650700', '650718'],
+      ['650720', '650727'], ['650901', '650978'], ['651652', '651679'],
+      ['655000', '655019'], ['655021', '655058'],
+    ],
+    lengths: [16],
+    cvvLength: 3,
+    gaps: [4, 8, 12],
+    luhn: true,
+  },
+  {
+    brand: 'hipercard',
+    displayName: 'Hipercard',
+    ranges: ['384100', '384140', '384160', '606282', '637095', '637568', '637599', '637609', '637612'],
+    lengths: [13, 16, 19],
+    cvvLength: 3,
+    gaps: [4, 8, 12, 16],
+    luhn: true,
+  },
+  {
+    brand: 'aura',
+    displayName: 'Aura',
+    ranges: [['507800', '507899']],
+    lengths: [19],
+    cvvLength: 3,
+    gaps: [4, 8, 12, 16],
+    luhn: true,
+  },
+  {
+    brand: 'amex',
+    displayName: 'American Express',
+    ranges: ['34', '37'],
+    lengths: [15],
+    cvvLength: 4,
+    gaps: [4, 10],
+    luhn: true,
+  },
+  {
+    brand: 'diners',
+    displayName: 'Diners Club',
+    ranges: [['300', '305'], '36', '38', '39'],
+    lengths: [14, 16, 19],
+    cvvLength: 3,
+    gaps: [4, 10],
+    luhn: true,
+  },
+  {
+    brand: 'discover',
+    displayName: 'Discover',
+    ranges: ['6011', ['644', '649'], '65'],
+    lengths: [16, 19],
+    cvvLength: 3,
+    gaps: [4, 8, 12, 16],
+    luhn: true,
+  },
+  {
+    brand: 'jcb',
+    displayName: 'JCB',
+    ranges: [['3528', '3589']],
+    lengths: [16, 17, 18, 19],
+    cvvLength: 3,
+    gaps: [4, 8, 12, 16],
+    luhn: true,
+  },
+  {
+    // Legacy JCB ranges, 15-digit PANs only
+    brand: 'jcb',
+    displayName: 'JCB',
+    ranges: ['2131', '1800'],
+    lengths: [15],
+    cvvLength: 3,
+    gaps: [4, 10],
+    luhn: true,
+  },
+  {
+    brand: 'mastercard',
+    displayName: 'Mastercard',
+    ranges: [['51', '55'], ['2221', '2720']],
+    lengths: [16],
+    cvvLength: 3,
+    gaps: [4, 8, 12],
+    luhn: true,
+  },
+  {
+    brand: 'maestro',
+    displayName: 'Maestro',
+    ranges: ['493698', ['500000', '504174'], ['504176', '506698'], ['506779', '508999'], ['56', '59'], '63', '67'],
+    lengths: [12, 13, 14, 15, 16, 17, 18, 19],
+    cvvLength: 3,
+    gaps: [4, 8, 12, 16],
+    luhn: true,
+  },
+  {
+    brand: 'visa',
+    displayName: 'Visa',
+    ranges: ['4'],
+    lengths: [13, 16, 19],
+    cvvLength: 3,
+    gaps: [4, 8, 12, 16],
+    luhn: true,
+  },
+];
+
+/** Maximum PAN length across all brands (used when no brand is detected yet). */
+export const MAX_CARD_LENGTH = 19;
+
+/** Default security code length when no brand is detected yet. */
+export const DEFAULT_CVV_LENGTH = 3;
+
+/**
+ * Find the brand rule for a (possibly partial) card number.
+ * Returns null when no range matches the digits typed so far.
+ */
+export function findCardBrand(number: string): CardBrandRule | null {
+  const digits = number.replace(/\D/g, '');
+  if (!digits) return null;
+
+  let best: CardBrandRule | null = null;
+  let bestLength = 0;
+
+  for (const rule of CARD_BRANDS) {
+    for (const range of rule.ranges) {
+      const length = matchBinRange(digits, range);
+      if (length > bestLength) {
+        best = rule;
+        bestLength = length;
+      }
+    }
+  }
+
+  return best;
+}
+
+/** Look up a brand rule by identifier (the first entry, for brands with several). */
+export function getCardBrandRule(brand: string): CardBrandRule | null {
+  return CARD_BRANDS.find(rule => rule.brand === brand) || null;
+}
+
+/** Returns the matched prefix length, or 0 when the range does not match. */
+export function matchBinRange(digits: string, range: BinRange): number {
+  if (typeof range === 'string') {
+    return digits.length >= range.length && digits.startsWith(range) ? range.length : 0;
+  }
+
+  const [start, end] = range;
+  if (digits.length < start.length) return 0;
+
+  const prefix = parseInt(digits.slice(0, start.length), 10);
+  return prefix >= parseInt(start, 10) && prefix <= parseInt(end, 10) ? start.length : 0;
+}
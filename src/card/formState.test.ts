@@ -0,0 +1,77 @@
+import { describe, it, expect, vi } from 'vitest';
+import { extractBin, CardFormStateTracker } from './formState';
+import type { CardInput } from './validation';
+import { getMessages } from '../i18n/messages';
+
+describe('extractBin', () => {
+  it('returns undefined until six digits are typed', () => {
+    expect(extractBin('')).toBeUndefined();
+    expect(extractBin('4111 1')).toBeUndefined();
+  });
+
+  it('keeps the 6-digit BIN while the number is being typed', () => {
+    expect(extractBin('411111')).toBe('411111');
+    expect(extractBin('4111 1111')).toBe('411111');
+    expect(extractBin('4111 1111 1111')).toBe('411111');
+  });
+
+  it('switches to 8 digits only at the full length, not at a shorter valid length', () => {
+    // 13 digits is a valid Visa length, but a 16-digit card is still being typed
+    expect(extractBin('4111 1111 1111 1')).toBe('411111');
+    expect(extractBin('4111 1111 1111 111')).toBe('411111');
+    expect(extractBin('4111 1111 1111 1111')).toBe('41111111');
+    expect(extractBin('5555 5555 5555 4444')).toBe('55555555');
+  });
+
+  it('keeps 6 digits for 15-digit brands', () => {
+    expect(extractBin('3782 822463 10005')).toBe('378282');
+  });
+
+  it('uses the maximum length for unknown BINs', () => {
+    expect(extractBin('9000000000000001')).toBe('900000');
+  });
+});
+
+describe('CardFormStateTracker', () => {
+  const input: CardInput = { number: '', expiry: '', cvv: '', holderName: '' };
+  const messages = getMessages('en-US');
+
+  it('only reports errors for touched fields', () => {
+    const tracker = new CardFormStateTracker(() => ({ ...input, number: '4111111111111112' }), undefined, messages);
+
+    expect(tracker.getState().errors).toEqual({});
+
+    tracker.touch('cardNumber');
+    expect(Object.keys(tracker.getState().errors)).toEqual(['cardNumber']);
+
+    tracker.touchAll();
+    expect(Object.keys(tracker.getState().errors)).toEqual(['cardNumber', 'expiry', 'cvv', 'cardholderName']);
+  });
+
+  it('reports BIN, brand and submitting state', () => {
+    const tracker = new CardFormStateTracker(() => ({ ...input, number: '4111 1111' }), undefined, messages);
+    tracker.setSubmitting(true);
+
+    expect(tracker.getState()).toMatchObject({ isValid: false, isSubmitting: true, bin: '411111', cardBrand: 'visa' });
+  });
+
+  it('does not re-emit identical states', () => {
+    let number = '4111';
+    const onChange = vi.fn();
+    const tracker = new CardFormStateTracker(() => ({ ...input, number }), onChange, messages);
+
+    tracker.emit();
+    tracker.emit();
+    expect(onChange).toHaveBeenCalledTimes(1);
+
+    number = '4111 11';
+    tracker.emit();
+    expect(onChange).toHaveBeenCalledTimes(2);
+    expect(onChange).toHaveBeenLastCalledWith(expect.objectContaining({ bin: '411111' }));
+
+    // More digits of the same card don't change the BIN mid-typing
+    number = '4111 1111 11';
+    tracker.emit();
+    expect(onChange).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * FormState tracking for the native card forms.
+ *
+ * Reads the current field values, validates them and reports a `FormState`
+ * (validity, per-field messages, BIN and brand) to `CardPaymentConfig.onChange`.
+ * Errors are only reported for fields the user has left (blurred) or after a
+ * submit attempt, so the checkout doesn't flag a half-typed number as invalid.
+ * Identical consecutive states are not re-emitted.
+ */
+
+import type { FormState } from '../types';
+import { validateCard, CARD_FIELDS } from './validation';
+import { findCardBrand, MAX_CARD_LENGTH } from './brands';
+import type { CardField, CardInput } from './validation';
+import { getMessages, getValidationMessage } from '../i18n/messages';
+import type { Messages } from '../i18n/messages';
+
+/** Minimum digits before a BIN is reported. */
+const BIN_MIN_LENGTH = 6;
+
+/** Maximum BIN length reported (8-digit BINs per ISO/IEC 7812-1:2017). */
+const BIN_MAX_LENGTH = 8;
+
+/** 8-digit BINs are only issued on PANs of at least 16 digits. */
+const EIGHT_DIGIT_BIN_MIN_PAN_LENGTH = 16;
+
+/**
+ * Extract the BIN from a card number, or undefined if too short: the 6 leading
+ * digits while the number is being typed, 8 once it reaches the brand's full
+ * length (its shortest length of 16 digits or more; 15-digit brands such as
+ * Amex keep 6). The BIN changes at most once per card, at its last digit, so
+ * typing doesn't refetch installments or re-evaluate routing midway.
+ */
+export function extractBin(number: string): string | undefined {
+  const digits = number.replace(/\D/g, '');
+  if (digits.length < BIN_MIN_LENGTH) return undefined;
+
+  const lengths = (findCardBrand(digits)?.lengths || [MAX_CARD_LENGTH])
+    .filter(length => length >= EIGHT_DIGIT_BIN_MIN_PAN_LENGTH);
+  const complete = lengths.length > 0 && digits.length >= Math.min(...lengths);
+  return digits.slice(0, complete ? BIN_MAX_LENGTH : BIN_MIN_LENGTH);
+}
+
+export class CardFormStateTracker {
+  private touched = new Set<CardField>();
+  private submitting = false;
+  private lastKey = '';
+
+  constructor(
+    private readonly readInput: () => CardInput,
+    private readonly onChange?: (state: FormState) => void,
+    private readonly messages: Messages = getMessages()
+  ) {}
+
+  /** Mark a field as visited so its errors are reported. */
+  touch(field: CardField): void {
+    this.touched.add(field);
+  }
+
+  /** Mark every field as visited (on submit attempt). */
+  touchAll(): void {
+    CARD_FIELDS.forEach(field => this.touched.add(field));
+  }
+
+  setSubmitting(submitting: boolean): void {
+    this.submitting = submitting;
+  }
+
+  getState(): FormState {
+    const input = this.readInput();
+    const result = validateCard(input);
+
+    const errors: Record<string, string> = {};
+    for (const field of CARD_FIELDS) {
+      const code = result.errors[field];
+      if (code && this.touched.has(field)) {
+        errors[field] = getValidationMessage(code, this.messages);
+      }
+    }
+
+    return {
+      isValid: result.isValid,
+      isSubmitting: this.submitting,
+      errors,
+      bin: extractBin(input.number),
+      cardBrand: result.brand?.brand,
+    };
+  }
+
+  /** Compute the current state and notify `onChange` if it changed. */
+  emit(): FormState {
+    const state = this.getState();
+    const key = JSON.stringify(state);
+    if (key !== this.lastKey) {
+      this.lastKey = key;
+      this.onChange?.(state);
+    }
+    return state;
+  }
+}
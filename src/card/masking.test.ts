@@ -0,0 +1,103 @@
+// @vitest-environment jsdom
+import { describe, it, expect } from 'vitest';
+import {
+  formatCardNumber,
+  formatExpiry,
+  getCardNumberPlaceholder,
+  getMaxCardLength,
+  maskCardNumberInput,
+  syncCvvInput
+} from './masking';
+import { getCardBrandRule } from './brands';
+
+describe('formatCardNumber', () => {
+  it('groups digits by the brand gaps', () => {
+    expect(formatCardNumber('4111111111111111')).toBe('4111 1111 1111 1111');
+    expect(formatCardNumber('378282246310005')).toBe('3782 822463 10005');
+    expect(formatCardNumber('30569309025904')).toBe('3056 930902 5904');
+  });
+
+  it('strips non-digits and truncates to the brand maximum length', () => {
+    expect(formatCardNumber('4111-1111-1111-1111-9999')).toBe('4111 1111 1111 1111 999');
+    expect(formatCardNumber('3782822463100051234')).toBe('3782 822463 10005');
+  });
+
+  it('formats partial numbers', () => {
+    expect(formatCardNumber('41111')).toBe('4111 1');
+    expect(formatCardNumber('')).toBe('');
+  });
+});
+
+describe('getMaxCardLength', () => {
+  it('uses the brand lengths, or 19 when unknown', () => {
+    expect(getMaxCardLength('37')).toBe(15);
+    expect(getMaxCardLength('5555')).toBe(16);
+    expect(getMaxCardLength('')).toBe(19);
+  });
+});
+
+describe('getCardNumberPlaceholder', () => {
+  it('masks the brand format', () => {
+    expect(getCardNumberPlaceholder(null)).toBe('0000 0000 0000 0000');
+    expect(getCardNumberPlaceholder(getCardBrandRule('amex'))).toBe('0000 000000 00000');
+  });
+});
+
+describe('formatExpiry', () => {
+  it('inserts the slash after the month', () => {
+    expect(formatExpiry('1')).toBe('1');
+    expect(formatExpiry('12')).toBe('12');
+    expect(formatExpiry('123')).toBe('12/3');
+    expect(formatExpiry('12/305')).toBe('12/30');
+  });
+});
+
+describe('maskCardNumberInput', () => {
+  it('formats the input in place and returns the brand', () => {
+    const input = document.createElement('input');
+    input.value = '378282246310005';
+
+    const brand = maskCardNumberInput(input);
+
+    expect(brand?.brand).toBe('amex');
+    expect(input.value).toBe('3782 822463 10005');
+    expect(input.maxLength).toBe(17);
+  });
+
+  it('keeps the caret next to the edited digit', () => {
+    const input = document.createElement('input');
+    document.body.appendChild(input);
+    input.focus();
+    input.value = '4111 11111';
+    input.setSelectionRange(6, 6); // after the 5th digit
+
+    maskCardNumberInput(input);
+
+    expect(input.value).toBe('4111 1111 1');
+    expect(input.selectionStart).toBe(6);
+    input.remove();
+  });
+});
+
+describe('syncCvvInput', () => {
+  it('resizes the field for the brand and truncates extra digits', () => {
+    const input = document.createElement('input');
+    input.value = '1234';
+
+    syncCvvInput(input, getCardBrandRule('visa'));
+    expect(input.maxLength).toBe(3);
+    expect(input.placeholder).toBe('123');
+    expect(input.value).toBe('123');
+
+    syncCvvInput(input, getCardBrandRule('amex'));
+    expect(input.maxLength).toBe(4);
+    expect(input.placeholder).toBe('1234');
+  });
+
+  it('drops non-digits', () => {
+    const input = document.createElement('input');
+    input.value = '1a2';
+    syncCvvInput(input, null);
+    expect(input.value).toBe('12');
+  });
+});
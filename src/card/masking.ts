@@ -0,0 +1,106 @@
+/**
+ * Brand-aware input masks for the native card forms.
+ *
+ * Card numbers are grouped according to the detected brand (4-4-4-4 for most
+ * brands, 4-6-5 for Amex, 4-6-4 for Diners), truncated to the brand's maximum
+ * length, and reformatted in place without moving the caret away from the
+ * digit the user was editing.
+ */
+
+import { findCardBrand, MAX_CARD_LENGTH, DEFAULT_CVV_LENGTH } from './brands';
+import type { CardBrandRule } from './brands';
+
+const DEFAULT_GAPS = [4, 8, 12, 16];
+
+/** Maximum PAN length for the brand detected from the digits typed so far. */
+export function getMaxCardLength(number: string): number {
+  const brand = findCardBrand(number);
+  return brand ? Math.max(...brand.lengths) : MAX_CARD_LENGTH;
+}
+
+/** Group card digits with spaces according to the brand's gap positions. */
+export function formatCardNumber(number: string, brand: CardBrandRule | null = findCardBrand(number)): string {
+  const maxLength = brand ? Math.max(...brand.lengths) : MAX_CARD_LENGTH;
+  const digits = number.replace(/\D/g, '').slice(0, maxLength);
+  const gaps = brand?.gaps || DEFAULT_GAPS;
+
+  let formatted = '';
+  for (let i = 0; i < digits.length; i++) {
+    if (gaps.includes(i)) {
+      formatted += ' ';
+    }
+    formatted += digits[i];
+  }
+  return formatted;
+}
+
+/** Masked placeholder for a brand, e.g. '0000 000000 00000' for Amex. */
+export function getCardNumberPlaceholder(brand: CardBrandRule | null): string {
+  const length = !brand || brand.lengths.includes(16) ? 16 : brand.lengths[0];
+  return formatCardNumber('0'.repeat(length), brand);
+}
+
+/** Format typed expiry digits as MM/AA. */
+export function formatExpiry(value: string): string {
+  const digits = value.replace(/\D/g, '').slice(0, 4);
+  return digits.length >= 3 ? `${digits.slice(0, 2)}/${digits.slice(2)}` : digits;
+}
+
+/** Security code length for the brand (3, or 4 for Amex). */
+export function getCvvLengthForBrand(brand: CardBrandRule | null): number {
+  return brand?.cvvLength || DEFAULT_CVV_LENGTH;
+}
+
+/**
+ * Reformat an input's value in place, keeping the caret next to the same
+ * digit it was next to before formatting (so editing mid-number doesn't
+ * throw the cursor to the end of the field).
+ */
+export function applyMask(input: HTMLInputElement, format: (value: string) => string): void {
+  const previous = input.value;
+  const caret = input.selectionStart ?? previous.length;
+  const digitsBeforeCaret = previous.slice(0, caret).replace(/\D/g, '').length;
+
+  const next = format(previous);
+  if (next === previous) return;
+  input.value = next;
+
+  // Only restore the caret when the input is focused; setting a selection on
+  // a blurred input steals focus in some browsers
+  if (typeof document !== 'undefined' && document.activeElement !== input) return;
+
+  let position = 0;
+  let seen = 0;
+  while (position < next.length && seen < digitsBeforeCaret) {
+    if (/\d/.test(next[position])) seen++;
+    position++;
+  }
+  input.setSelectionRange(position, position);
+}
+
+/**
+ * Apply the card number mask and return the detected brand, so the caller
+ * can update the CVV field and brand badge.
+ */
+export function maskCardNumberInput(input: HTMLInputElement): CardBrandRule | null {
+  const brand = findCardBrand(input.value);
+  const maxLength = brand ? Math.max(...brand.lengths) : MAX_CARD_LENGTH;
+  const gaps = brand?.gaps || DEFAULT_GAPS;
+  input.maxLength = maxLength + gaps.filter(gap => gap < maxLength).length;
+  applyMask(input, value => formatCardNumber(value, brand));
+  return brand;
+}
+
+/**
+ * Resize the CVV field for the brand: updates maxlength and placeholder and
+ * truncates any digits beyond the new length.
+ */
+export function syncCvvInput(input: HTMLInputElement, brand: CardBrandRule | null): void {
+  const length = getCvvLengthForBrand(brand);
+  input.maxLength = length;
+  input.placeholder = length === 4 ? '1234' : '123';
+  const digits = input.value.replace(/\D/g, '');
+  if (digits !== input.value || digits.length > length) {
+    input.value = digits.slice(0, length);
+  }
+}
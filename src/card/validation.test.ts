@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import {
+  luhnCheck,
+  validateCardNumber,
+  validateExpiry,
+  validateCvv,
+  validateHolderName,
+  validateCard,
+  validateCardData,
+  parseExpiry,
+  getFirstCardError
+} from './validation';
+
+const NOW = new Date(2026, 5, 15); // June 2026
+
+describe('luhnCheck', () => {
+  it('accepts valid check digits', () => {
+    expect(luhnCheck('4111111111111111')).toBe(true);
+    expect(luhnCheck('4111 1111 1111 1111')).toBe(true);
+    expect(luhnCheck('378282246310005')).toBe(true);
+  });
+
+  it('rejects invalid check digits and empty input', () => {
+    expect(luhnCheck('4111111111111112')).toBe(false);
+    expect(luhnCheck('')).toBe(false);
+  });
+});
+
+describe('validateCardNumber', () => {
+  it('accepts valid numbers of each brand length', () => {
+    expect(validateCardNumber('4111 1111 1111 1111')).toBeNull();
+    expect(validateCardNumber('4000000000006')).toBeNull();
+    expect(validateCardNumber('378282246310005')).toBeNull();
+    expect(validateCardNumber('6362970000457013')).toBeNull();
+    expect(validateCardNumber('5078000000000000001')).toBeNull();
+  });
+
+  it('accepts 15-digit numbers in the legacy JCB ranges', () => {
+    expect(validateCardNumber('213100000000001')).toBeNull();
+    expect(validateCardNumber('180000000000002')).toBeNull();
+    expect(validateCardNumber('2131000000000008')).toBe('INVALID_NUMBER');
+  });
+
+  it('reports empty and short numbers', () => {
+    expect(validateCardNumber('')).toBe('INVALID_NUMBER');
+    expect(validateCardNumber('4111')).toBe('INVALID_LENGTH');
+    expect(validateCardNumber('41111111111111')).toBe('INVALID_LENGTH');
+  });
+
+  it('reports numbers longer than the brand allows', () => {
+    expect(validateCardNumber('37828224631000500')).toBe('INVALID_NUMBER');
+  });
+
+  it('reports a wrong check digit', () => {
+    expect(validateCardNumber('4111111111111112')).toBe('INVALID_CHECK_DIGIT');
+  });
+
+  it('accepts unknown BINs that pass Luhn', () => {
+    expect(validateCardNumber('9000000000000001')).toBeNull();
+    expect(validateCardNumber('9000000000000009')).toBe('INVALID_CHECK_DIGIT');
+  });
+});
+
+describe('parseExpiry', () => {
+  it('parses MM/AA, MM/AAAA and unseparated input', () => {
+    expect(parseExpiry('12/30')).toEqual({ month: 12, year: 2030 });
+    expect(parseExpiry('12/2030')).toEqual({ month: 12, year: 2030 });
+    expect(parseExpiry('1230')).toEqual({ month: 12, year: 2030 });
+  });
+
+  it('returns null for incomplete input', () => {
+    expect(parseExpiry('12/3')).toBeNull();
+  });
+});
+
+describe('validateExpiry', () => {
+  it('accepts the current month through the last day', () => {
+    expect(validateExpiry('06/26', NOW)).toBeNull();
+    expect(validateExpiry('01/27', NOW)).toBeNull();
+  });
+
+  it('reports expired cards', () => {
+    expect(validateExpiry('05/26', NOW)).toBe('CARD_EXPIRED');
+    expect(validateExpiry('12/25', NOW)).toBe('CARD_EXPIRED');
+  });
+
+  it('reports invalid months and formats', () => {
+    expect(validateExpiry('13/27', NOW)).toBe('INVALID_MONTH');
+    expect(validateExpiry('00/27', NOW)).toBe('INVALID_MONTH');
+    expect(validateExpiry('1', NOW)).toBe('INVALID_EXPIRY');
+  });
+
+  it('rejects expiries too far in the future', () => {
+    expect(validateExpiry('12/2050', NOW)).toBe('INVALID_EXPIRY');
+  });
+});
+
+describe('validateCvv', () => {
+  it('requires the brand length', () => {
+    expect(validateCvv('123', '4111111111111111')).toBeNull();
+    expect(validateCvv('1234', '378282246310005')).toBeNull();
+    expect(validateCvv('123', '378282246310005')).toBe('INVALID_CVV');
+    expect(validateCvv('12a', '4111111111111111')).toBe('INVALID_CVV');
+  });
+});
+
+describe('validateHolderName', () => {
+  it('requires three characters without digits', () => {
+    expect(validateHolderName('MARIA SILVA')).toBeNull();
+    expect(validateHolderName('  AB ')).toBe('INVALID_NAME');
+    expect(validateHolderName('MARIA 2')).toBe('INVALID_NAME');
+  });
+});
+
+describe('validateCard', () => {
+  it('reports the first error per field and the brand', () => {
+    const result = validateCard(
+      { number: '4111111111111112', expiry: '05/26', cvv: '12', holderName: 'MARIA SILVA' },
+      NOW
+    );
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toEqual({ cardNumber: 'INVALID_CHECK_DIGIT', expiry: 'CARD_EXPIRED', cvv: 'INVALID_CVV' });
+    expect(result.brand?.brand).toBe('visa');
+    expect(getFirstCardError(result)).toEqual({ field: 'cardNumber', code: 'INVALID_CHECK_DIGIT' });
+  });
+});
+
+describe('validateCardData', () => {
+  it('normalizes headless card data before validating', () => {
+    const result = validateCardData({
+      number: '4111-1111-1111-1111',
+      holderName: ' MARIA SILVA ',
+      expirationMonth: '6',
+      expirationYear: '27',
+      cvv: '123'
+    }, NOW);
+    expect(result.isValid).toBe(true);
+    expect(getFirstCardError(result)).toBeNull();
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Card validation engine shared by the native card forms.
+ *
+ * Validates the PAN (brand, length, Luhn), expiry, security code and
+ * cardholder name before anything is encrypted or sent to a PSP, so typos
+ * are caught client-side instead of surfacing as declined charge attempts.
+ */
+
+import { findCardBrand, DEFAULT_CVV_LENGTH, MAX_CARD_LENGTH } from './brands';
+import type { CardBrandRule } from './brands';
+import type { CardData } from '../types';
+
+export type CardField = 'cardNumber' | 'expiry' | 'cvv' | 'cardholderName';
+
+export type CardValidationCode =
+  | 'INVALID_NUMBER'
+  | 'INVALID_LENGTH'
+  | 'INVALID_CHECK_DIGIT'
+  | 'INVALID_EXPIRY'
+  | 'INVALID_MONTH'
+  | 'CARD_EXPIRED'
+  | 'INVALID_CVV'
+  | 'INVALID_NAME';
+
+export interface CardInput {
+  number: string;
+  /** Expiry as typed in the form ('MM/AA' or 'MM/AAAA') */
+  expiry: string;
+  cvv: string;
+  holderName: string;
+}
+
+export interface CardValidationResult {
+  isValid: boolean;
+
+  /** First error per field */
+  errors: Partial<Record<CardField, CardValidationCode>>;
+
+  /** Detected brand rule (null when the BIN is unknown) */
+  brand: CardBrandRule | null;
+}
+
+/** Detect the card brand identifier from the BIN (empty string when unknown). */
+export function detectCardBrand(number: string): string {
+  return findCardBrand(number)?.brand || '';
+}
+
+/** Luhn (mod 10) check digit verification. */
+export function luhnCheck(number: string): boolean {
+  const digits = number.replace(/\D/g, '');
+  if (!digits) return false;
+
+  let sum = 0;
+  let double = false;
+  for (let i = digits.length - 1; i >= 0; i--) {
+    let digit = digits.charCodeAt(i) - 48;
+    if (double) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+    double = !double;
+  }
+
+  return sum % 10 === 0;
+}
+
+export function validateCardNumber(number: string): CardValidationCode | null {
+  const digits = number.replace(/\D/g, '');
+  if (digits.length < 12) return digits.length === 0 ? 'INVALID_NUMBER' : 'INVALID_LENGTH';
+
+  const brand = findCardBrand(digits);
+  if (brand) {
+    if (!brand.lengths.includes(digits.length)) {
+      return digits.length < Math.max(...brand.lengths) ? 'INVALID_LENGTH' : 'INVALID_NUMBER';
+    }
+    if (brand.luhn && !luhnCheck(digits)) return 'INVALID_CHECK_DIGIT';
+    return null;
+  }
+
+  // Unknown BIN: accept any ISO/IEC 7812 length that passes Luhn
+  if (digits.length > MAX_CARD_LENGTH) return 'INVALID_NUMBER';
+  if (!luhnCheck(digits)) return 'INVALID_CHECK_DIGIT';
+  return null;
+}
+
+/**
+ * Split a typed expiry into month and four-digit year.
+ * Accepts 'MM/AA', 'MM/AAAA' and the same without separator.
+ */
+export function parseExpiry(expiry: string): { month: number; year: number } | null {
+  const digits = expiry.replace(/\D/g, '');
+  if (digits.length !== 4 && digits.length !== 6) return null;
+
+  const month = parseInt(digits.slice(0, 2), 10);
+  const yearPart = digits.slice(2);
+  const year = yearPart.length === 2 ? 2000 + parseInt(yearPart, 10) : parseInt(yearPart, 10);
+  return { month, year };
+}
+
+export function validateExpiry(expiry: string, now: Date = new Date()): CardValidationCode | null {
+  const parsed = parseExpiry(expiry);
+  if (!parsed) return 'INVALID_EXPIRY';
+
+  const { month, year } = parsed;
+  if (month < 1 || month > 12) return 'INVALID_MONTH';
+
+  // Cards are valid through the last day of the expiry month
+  const currentYear = now.getFullYear();
+  const currentMonth = now.getMonth() + 1;
+  if (year < currentYear || (year === currentYear && month < currentMonth)) {
+    return 'CARD_EXPIRED';
+  }
+
+  // Issuers don't emit cards valid for more than ~20 years
+  if (year > currentYear + 20) return 'INVALID_EXPIRY';
+
+  return null;
+}
+
+/** Expected security code length for a card number (brand-aware). */
+export function getCvvLength(number: string): number {
+  return findCardBrand(number)?.cvvLength || DEFAULT_CVV_LENGTH;
+}
+
+export function validateCvv(cvv: string, number: string): CardValidationCode | null {
+  if (!/^\d+$/.test(cvv)) return 'INVALID_CVV';
+  return cvv.length === getCvvLength(number) ? null : 'INVALID_CVV';
+}
+
+export function validateHolderName(name: string): CardValidationCode | null {
+  const trimmed = name.trim();
+  if (trimmed.length < 3) return 'INVALID_NAME';
+  if (/\d/.test(trimmed)) return 'INVALID_NAME';
+  return null;
+}
+
+/** Validate every card field and report the first error per field. */
+export function validateCard(input: CardInput, now: Date = new Date()): CardValidationResult {
+  const errors: CardValidationResult['errors'] = {};
+
+  const numberError = validateCardNumber(input.number);
+  if (numberError) errors.cardNumber = numberError;
+
+  const expiryError = validateExpiry(input.expiry, now);
+  if (expiryError) errors.expiry = expiryError;
+
+  const cvvError = validateCvv(input.cvv, input.number);
+  if (cvvError) errors.cvv = cvvError;
+
+  const nameError = validateHolderName(input.holderName);
+  if (nameError) errors.cardholderName = nameError;
+
+  return {
+    isValid: Object.keys(errors).length === 0,
+    errors,
+    brand: findCardBrand(input.number),
+  };
+}
+
+/**
+ * Normalize headless card data: digits-only number and CVV, 'MM' month,
+ * 'YYYY' year and trimmed holder name.
+ */
+export function normalizeCardData(card: CardData): CardData {
+  const year = card.expirationYear.replace(/\D/g, '');
+  return {
+    ...card,
+    number: card.number.replace(/\D/g, ''),
+    holderName: card.holderName.trim(),
+    expirationMonth: card.expirationMonth.replace(/\D/g, '').padStart(2, '0'),
+    expirationYear: year.length === 2 ? `20${year}` : year,
+    cvv: card.cvv.replace(/\D/g, ''),
+  };
+}
+
+/** Validate headless card data (see `normalizeCardData`) with the form rules. */
+export function validateCardData(card: CardData, now: Date = new Date()): CardValidationResult {
+  const normalized = normalizeCardData(card);
+  return validateCard({
+    number: normalized.number,
+    expiry: `${normalized.expirationMonth}/${normalized.expirationYear}`,
+    cvv: normalized.cvv,
+    holderName: normalized.holderName,
+  }, now);
+}
+
+/** Field order used when reporting a single error (matches form layout). */
+export const CARD_FIELDS: readonly CardField[] = ['cardNumber', 'expiry', 'cvv', 'cardholderName'];
+
+/** First failing field in form order, or null when the card is valid. */
+export function getFirstCardError(
+  result: CardValidationResult
+): { field: CardField; code: CardValidationCode } | null {
+  for (const field of CARD_FIELDS) {
+    const code = result.errors[field];
+    if (code) return { field, code };
+  }
+  return null;
+}
@@ -20,14 +20,18 @@
 
 import { useEffect, useRef, useState } from 'react';
 import { KairosPayments } from '../core/KairosPayments';
-import type { CardPaymentConfig, PaymentData, PaymentError, KairosConfig } from '../types';
+import type { CardPaymentConfig, CardPaymentInstance, PaymentData, PaymentError, KairosConfig, Money } from '../types';
+import { toMoney, equalsMoney } from '../core/money';
+import { ErrorCode } from '../core/errorCodes';
+import { getMessages } from '../i18n/messages';
+import type { MessageOverrides } from '../i18n/messages';
 
 export interface CardPaymentFormProps {
   /** Tenant identifier */
   tenantId: string;
 
-  /** Payment amount in BRL */
-  amount: number;
+  /** Payment amount (Money, or a number in BRL) */
+  amount: number | Money;
 
   /** Environment */
   environment?: 'sandbox' | 'production';
@@ -36,11 +40,17 @@ export interface CardPaymentFormProps {
   apiUrl?: string;
 
   /** Preferred PSP provider */
-  preferredProvider?: 'MERCADOPAGO' | 'PAGSEGURO' | 'KAIROS';
+  preferredProvider?: KairosConfig['preferredProvider'];
 
   /** Maximum installments */
   maxInstallments?: number;
 
+  /** Locale for UI elements (default: 'pt-BR') */
+  locale?: 'pt-BR' | 'en-US' | 'es';
+
+  /** Per-key overrides for the locale's UI messages */
+  messages?: MessageOverrides;
+
   /** Callback on successful payment */
   onSuccess: (data: PaymentData) => void;
 
@@ -64,6 +74,8 @@ export function CardPaymentForm({
   apiUrl,
   preferredProvider,
   maxInstallments = 12,
+  locale = 'pt-BR',
+  messages,
   onSuccess,
   onError,
   onReady,
@@ -72,11 +84,16 @@ export function CardPaymentForm({
 }: CardPaymentFormProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const kairosRef = useRef<KairosPayments | null>(null);
+  const instanceRef = useRef<CardPaymentInstance | null>(null);
+  const amountRef = useRef(amount);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const labels = getMessages(locale, messages);
 
   useEffect(() => {
     let mounted = true;
+    // Cancels a pending init when the component unmounts or its props change
+    const initController = new AbortController();
 
     async function initKairos() {
       if (!containerRef.current) return;
@@ -90,10 +107,12 @@ export function CardPaymentForm({
           environment,
           apiUrl,
           preferredProvider,
+          locale,
+          messages,
           debug
         };
 
-        const kairos = await KairosPayments.init(config);
+        const kairos = await KairosPayments.init(config, { signal: initController.signal });
 
         if (!mounted) {
           kairos.destroy();
@@ -103,7 +122,7 @@ export function CardPaymentForm({
         kairosRef.current = kairos;
 
         const paymentConfig: CardPaymentConfig = {
-          amount,
+          amount: amountRef.current,
           maxInstallments,
           onReady: () => {
             setLoading(false);
@@ -118,14 +137,14 @@ export function CardPaymentForm({
           }
         };
 
-        await kairos.createCardPayment(containerRef.current, paymentConfig);
+        instanceRef.current = await kairos.createCardPayment(containerRef.current, paymentConfig);
       } catch (err: any) {
         if (mounted) {
-          const errorMessage = err.message || 'Failed to initialize payment form';
+          const errorMessage = err.message || labels.initError;
           setError(errorMessage);
           setLoading(false);
           onError?.({
-            code: 'INIT_ERROR',
+            code: ErrorCode.INIT_ERROR,
             message: errorMessage,
             cause: err
           });
@@ -137,19 +156,29 @@ export function CardPaymentForm({
 
     return () => {
       mounted = false;
+      initController.abort();
+      instanceRef.current = null;
       if (kairosRef.current) {
         kairosRef.current.destroy();
         kairosRef.current = null;
       }
     };
-  }, [tenantId, amount, environment, apiUrl, preferredProvider]);
+  }, [tenantId, environment, apiUrl, preferredProvider, locale]);
+
+  // Amount changes update the mounted form instead of re-initializing the SDK
+  useEffect(() => {
+    // Money props are often recreated on each render; compare by value
+    if (equalsMoney(toMoney(amountRef.current), toMoney(amount))) return;
+    amountRef.current = amount;
+    instanceRef.current?.updateAmount(amount);
+  }, [amount]);
 
   return (
     <div className={className}>
       {loading && (
         <div className="kairos-loading">
           <div className="kairos-spinner" />
-          <span>Carregando formulario de pagamento...</span>
+          <span>{labels.loadingForm}</span>
         </div>
       )}
 
@@ -161,7 +190,6 @@ export function CardPaymentForm({
 
       <div
         ref={containerRef}
-        id="kairos-card-payment-container"
         style={{ display: loading ? 'none' : 'block' }}
       />
 
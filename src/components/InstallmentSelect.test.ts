@@ -0,0 +1,136 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createInstallmentSelect } from './InstallmentSelect';
+import { buildInstallmentOption } from '../core/installments';
+import type { InstallmentOption, Money } from '../types';
+
+const AMOUNT: Money = { amount: 10000, currency: 'BRL' };
+
+function plans(amount: Money, max: number): InstallmentOption[] {
+  return Array.from({ length: max }, (_, i) => buildInstallmentOption(i + 1, amount, { interestFree: true }));
+}
+
+/** Plan loader whose responses are released by the test */
+function deferredLoader() {
+  const pending: Array<(options: InstallmentOption[]) => void> = [];
+  const load = vi.fn((_amount: Money, _bin: string) => new Promise<InstallmentOption[]>(resolve => {
+    pending.push(resolve);
+  }));
+  return { load, pending };
+}
+
+function setup(load: (amount: Money, bin: string) => Promise<InstallmentOption[]>) {
+  const select = document.body.appendChild(document.createElement('select'));
+  const installments = createInstallmentSelect(select, {
+    amount: AMOUNT,
+    maxInstallments: 12,
+    loadInstallments: load,
+    formatOption: option => `${option.installments}x`,
+    loadingLabel: 'Loading...'
+  });
+  return { select, installments };
+}
+
+function choose(select: HTMLSelectElement, count: number): void {
+  select.value = String(count);
+  select.dispatchEvent(new Event('change'));
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+  document.body.replaceChildren();
+});
+
+describe('createInstallmentSelect', () => {
+  it('shows the loaded plans and keeps the chosen count', async () => {
+    const { select, installments } = setup(async amount => plans(amount, 6));
+
+    await installments.refresh();
+    choose(select, 4);
+
+    expect(select.options).toHaveLength(6);
+    expect(installments.getValue()).toBe(4);
+  });
+
+  it('keeps the chosen count while plans are reloading', async () => {
+    const { load, pending } = deferredLoader();
+    const { select, installments } = setup(load);
+    const initial = installments.refresh();
+    pending[0](plans(AMOUNT, 6));
+    await initial;
+    choose(select, 3);
+
+    const reload = installments.setAmount({ amount: 20000, currency: 'BRL' });
+    expect(select.disabled).toBe(true);
+    expect(select.value).toBe('');
+    expect(installments.getValue()).toBe(3);
+
+    // A submit waits for the new plans
+    let ready = false;
+    const submit = installments.ready().then(() => {
+      ready = true;
+    });
+    await Promise.resolve();
+    expect(ready).toBe(false);
+
+    pending[1](plans({ amount: 20000, currency: 'BRL' }, 6));
+    await Promise.all([reload, submit]);
+    expect(select.value).toBe('3');
+    expect(installments.getValue()).toBe(3);
+  });
+
+  it('keeps the chosen count across overlapping refreshes', async () => {
+    const { load, pending } = deferredLoader();
+    const { select, installments } = setup(load);
+    const initial = installments.refresh();
+    pending[0](plans(AMOUNT, 6));
+    await initial;
+    choose(select, 5);
+
+    const first = installments.refresh();
+    const second = installments.refresh();
+    const ready = installments.ready();
+    pending[2](plans(AMOUNT, 6));
+    pending[1](plans(AMOUNT, 2));
+    await Promise.all([first, second, ready]);
+
+    // The superseded response is discarded
+    expect(select.options).toHaveLength(6);
+    expect(select.value).toBe('5');
+    expect(installments.getValue()).toBe(5);
+  });
+
+  it('runs a debounced BIN refresh right away when a submit waits for it', async () => {
+    vi.useFakeTimers();
+    const load = vi.fn(async (amount: Money, bin: string) => plans(amount, bin === '41111111' ? 3 : 6));
+    const { select, installments } = setup(load);
+    await installments.refresh();
+    choose(select, 6);
+
+    installments.setBin('41111111');
+    await installments.ready();
+
+    expect(load).toHaveBeenLastCalledWith(AMOUNT, '41111111');
+    await vi.runAllTimersAsync();
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('falls back to the shown option when the chosen count is no longer offered, and restores it later', async () => {
+    const { load, pending } = deferredLoader();
+    const { select, installments } = setup(load);
+    const initial = installments.refresh();
+    pending[0](plans(AMOUNT, 6));
+    await initial;
+    choose(select, 6);
+
+    const fewer = installments.refresh();
+    pending[1](plans(AMOUNT, 2));
+    await fewer;
+    expect(installments.getValue()).toBe(1);
+
+    const more = installments.refresh();
+    pending[2](plans(AMOUNT, 6));
+    await more;
+    expect(installments.getValue()).toBe(6);
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * InstallmentSelect — keeps a native `<select>` in sync with installment plans.
+ *
+ * Used by the native card forms (Kairos, PagSeguro). Plans are re-queried
+ * when the BIN changes (debounced, so typing doesn't fire a request per digit)
+ * and when the amount changes. While loading, the select is disabled and
+ * marked `aria-busy`; once loaded, the customer's installment choice is kept
+ * if it's still offered. The choice only changes on the select's `change`
+ * event, so rebuilds (even overlapping ones) don't lose it. Responses that
+ * arrive after a newer request was started are discarded.
+ */
+
+import type { InstallmentOption, Money } from '../types';
+import { buildInstallmentOption } from '../core/installments';
+
+export interface InstallmentSelectConfig {
+  /** Initial payment amount */
+  amount: Money;
+
+  /** Maximum installments shown */
+  maxInstallments: number;
+
+  /** Fetch plans for an amount and BIN */
+  loadInstallments: (amount: Money, bin: string) => Promise<InstallmentOption[]>;
+
+  /** Option label, e.g. '3x de R$ 33,33 sem juros' */
+  formatOption: (option: InstallmentOption) => string;
+
+  /** Label shown while plans are loading */
+  loadingLabel: string;
+
+  /** Delay before re-querying after a BIN change (default: 300ms) */
+  debounceMs?: number;
+
+  /** Called with the options shown once plans are loaded */
+  onLoad?: (options: InstallmentOption[]) => void;
+}
+
+export interface InstallmentSelectInstance {
+  /** Re-query plans for the current amount and BIN */
+  refresh(): Promise<void>;
+
+  /** Update the BIN (debounced refresh when it changed) */
+  setBin(bin: string): void;
+
+  /** Update the amount (immediate refresh) */
+  setAmount(amount: Money): Promise<void>;
+
+  /** Resolves once plans are loaded, running a pending (debounced) BIN refresh now */
+  ready(): Promise<void>;
+
+  /** Selected installment count (the customer's choice while loading: await ready() first) */
+  getValue(): number;
+
+  /** Cancel pending refreshes */
+  destroy(): void;
+}
+
+export function createInstallmentSelect(
+  select: HTMLSelectElement,
+  config: InstallmentSelectConfig
+): InstallmentSelectInstance {
+  const debounceMs = config.debounceMs ?? 300;
+  let amount = config.amount;
+  let bin = '';
+  let requestId = 0;
+  let debounceTimer: ReturnType<typeof setTimeout> | null = null;
+  let latestRefresh: Promise<void> = Promise.resolve();
+  let loading = false;
+  // The customer's choice; rebuilding the options doesn't change it
+  let selected = parseInt(select.value, 10) || 1;
+
+  select.addEventListener('change', () => {
+    selected = parseInt(select.value, 10) || selected;
+  });
+
+  const isOffered = (count: number) => Array.from(select.options).some(opt => opt.value === String(count));
+
+  const setOptions = (options: InstallmentOption[]) => {
+    select.textContent = '';
+    for (const option of options) {
+      const el = document.createElement('option');
+      el.value = String(option.installments);
+      el.textContent = config.formatOption(option);
+      select.appendChild(el);
+    }
+  };
+
+  const load = async (currentRequest: number) => {
+    loading = true;
+    select.disabled = true;
+    select.setAttribute('aria-busy', 'true');
+
+    const loadingOption = document.createElement('option');
+    loadingOption.value = '';
+    loadingOption.textContent = config.loadingLabel;
+    select.textContent = '';
+    select.appendChild(loadingOption);
+
+    let options: InstallmentOption[];
+    try {
+      options = await config.loadInstallments(amount, bin);
+    } catch {
+      options = [];
+    }
+
+    // A newer request (BIN/amount change or destroy) superseded this one
+    if (currentRequest !== requestId) return;
+
+    const limited = options.filter(o => o.installments <= config.maxInstallments);
+    const shown = limited.length > 0
+      ? limited
+      : [buildInstallmentOption(1, amount, { interestFree: true, recommended: true })];
+    setOptions(shown);
+
+    if (isOffered(selected)) {
+      select.value = String(selected);
+    }
+    loading = false;
+    select.disabled = false;
+    select.removeAttribute('aria-busy');
+    config.onLoad?.(shown);
+  };
+
+  const refresh = () => {
+    latestRefresh = load(++requestId);
+    return latestRefresh;
+  };
+
+  return {
+    refresh,
+    setBin(nextBin: string) {
+      if (nextBin === bin) return;
+      bin = nextBin;
+      if (debounceTimer) clearTimeout(debounceTimer);
+      debounceTimer = setTimeout(() => {
+        debounceTimer = null;
+        refresh();
+      }, debounceMs);
+    },
+    setAmount(nextAmount: Money) {
+      amount = nextAmount;
+      return refresh();
+    },
+    async ready() {
+      if (debounceTimer) {
+        clearTimeout(debounceTimer);
+        debounceTimer = null;
+        refresh();
+      }
+      // A BIN or amount change may start a newer refresh while this one loads
+      let current: Promise<void>;
+      do {
+        current = latestRefresh;
+        await current;
+      } while (current !== latestRefresh);
+    },
+    getValue() {
+      if (loading || isOffered(selected)) return selected;
+      return parseInt(select.value, 10) || 1;
+    },
+    destroy() {
+      if (debounceTimer) clearTimeout(debounceTimer);
+      debounceTimer = null;
+      requestId++;
+    },
+  };
+}
@@ -0,0 +1,53 @@
+// @vitest-environment jsdom
+import { describe, it, expect, afterEach } from 'vitest';
+import { createPixQrCode } from './PixQrCode';
+import { ErrorCode } from '../core/errorCodes';
+
+const HOSTILE = '<img src=x onerror="alert(1)"><script>alert(2)</script>';
+const QR_CODE = 'data:image/png;base64,AAAA';
+
+afterEach(() => {
+  document.body.replaceChildren();
+});
+
+describe('createPixQrCode', () => {
+  it('renders hostile labels as text', () => {
+    const container = document.body.appendChild(document.createElement('div'));
+
+    const pix = createPixQrCode(container, {
+      amount: 50,
+      copyPaste: '00020126330014BR.GOV.BCB.PIX',
+      qrCodeBase64: QR_CODE,
+      expiresAt: new Date(Date.now() + 60_000).toISOString(),
+      messages: {
+        pixAmountLabel: HOSTILE,
+        pixCopyCode: HOSTILE,
+        pixWaiting: HOSTILE,
+        pixExpiresIn: HOSTILE,
+        pixExpired: HOSTILE
+      }
+    });
+
+    // The QR code is the only image
+    expect(container.querySelectorAll('img')).toHaveLength(1);
+    expect(container.querySelector('script, [onerror]')).toBeNull();
+    expect(container.querySelector('.kairos-pix__amount-label')?.textContent).toBe(HOSTILE);
+    expect(container.querySelector('[data-kairos-pix-copy-label]')?.textContent).toBe(HOSTILE);
+    expect(container.querySelector('.kairos-pix__waiting')?.textContent).toBe(HOSTILE);
+    expect(container.querySelector('.kairos-pix__timer')?.textContent).toBe(`${HOSTILE} --:--`);
+    expect(container.querySelector('.kairos-pix__expired-overlay')?.textContent).toBe(HOSTILE);
+
+    pix.destroy();
+  });
+
+  it('rejects amounts in an unknown currency before rendering', () => {
+    const container = document.body.appendChild(document.createElement('div'));
+
+    expect(() => createPixQrCode(container, {
+      amount: { amount: 5000, currency: HOSTILE as any },
+      copyPaste: '00020126330014BR.GOV.BCB.PIX',
+      qrCodeBase64: QR_CODE
+    })).toThrow(expect.objectContaining({ code: ErrorCode.CONFIGURATION_ERROR }));
+    expect(container.childNodes).toHaveLength(0);
+  });
+});
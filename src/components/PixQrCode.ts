@@ -28,9 +28,18 @@
  * ```
  */
 
+import { getMessages } from '../i18n/messages';
+import type { Messages, MessageOverrides } from '../i18n/messages';
+import { formatMoney } from '../i18n/format';
+import { toMoney } from '../core/money';
+import type { Money } from '../types';
+import { injectStylesheet } from '../dom/csp';
+import { h, svg } from '../dom/elements';
+import pixCss from '../styles/pix.css';
+
 export interface PixQrCodeConfig {
-  /** Payment amount in BRL */
-  amount: number;
+  /** Payment amount (Money, or a number in BRL) */
+  amount: number | Money;
 
   /** PIX copia e cola payload (the text string users paste into their bank app) */
   copyPaste: string;
@@ -44,6 +53,9 @@ export interface PixQrCodeConfig {
   /** Locale for labels (default: 'pt-BR') */
   locale?: 'pt-BR' | 'en-US' | 'es';
 
+  /** Per-key overrides for the locale's labels (e.g. { pixCopyCode: 'Copiar' }) */
+  messages?: MessageOverrides;
+
   /** Callback when the copia e cola code is copied */
   onCopy?: () => void;
 
@@ -52,6 +64,12 @@ export interface PixQrCodeConfig {
 
   /** QR code size in pixels (default: 200) */
   qrSize?: number;
+
+  /** CSP nonce for the injected stylesheet */
+  cspNonce?: string;
+
+  /** 'external' skips the stylesheet — link dist/kairos-payments.css instead (default: 'inline') */
+  styleMode?: 'inline' | 'external';
 }
 
 export interface PixQrCodeInstance {
@@ -76,16 +94,16 @@ export function createPixQrCode(
 
   const locale = config.locale || 'pt-BR';
   const qrSize = config.qrSize || 200;
-  const labels = getLabels(locale);
+  const labels = getMessages(locale, config.messages);
   let countdownInterval: ReturnType<typeof setInterval> | null = null;
   let copyTimeout: ReturnType<typeof setTimeout> | null = null;
   let expired = false;
 
-  // Render HTML
-  containerEl.innerHTML = buildHtml(config, labels, qrSize);
-
   // Inject styles (once per page)
-  injectStyles();
+  injectStylesheet('pix', pixCss, { nonce: config.cspNonce, styleMode: config.styleMode });
+
+  // Render (text nodes only: no config value is parsed as HTML)
+  containerEl.replaceChildren(buildDom(config, labels, qrSize));
 
   // Resolve QR code image
   const qrImg = containerEl.querySelector('[data-kairos-pix-qr]') as HTMLImageElement | null;
@@ -108,10 +126,10 @@ export function createPixQrCode(
     try {
       await navigator.clipboard.writeText(config.copyPaste);
       if (copyLabel) {
-        copyLabel.textContent = labels.copied;
+        copyLabel.textContent = labels.pixCopied;
         if (copyTimeout) clearTimeout(copyTimeout);
         copyTimeout = setTimeout(() => {
-          if (copyLabel) copyLabel.textContent = labels.copyCode;
+          if (copyLabel) copyLabel.textContent = labels.pixCopyCode;
         }, 3000);
       }
       config.onCopy?.();
@@ -126,10 +144,10 @@ export function createPixQrCode(
       document.execCommand('copy');
       document.body.removeChild(ta);
       if (copyLabel) {
-        copyLabel.textContent = labels.copied;
+        copyLabel.textContent = labels.pixCopied;
         if (copyTimeout) clearTimeout(copyTimeout);
         copyTimeout = setTimeout(() => {
-          if (copyLabel) copyLabel.textContent = labels.copyCode;
+          if (copyLabel) copyLabel.textContent = labels.pixCopyCode;
         }, 3000);
       }
       config.onCopy?.();
@@ -174,7 +192,7 @@ export function createPixQrCode(
     destroy() {
       if (countdownInterval) clearInterval(countdownInterval);
       if (copyTimeout) clearTimeout(copyTimeout);
-      containerEl.innerHTML = '';
+      containerEl.replaceChildren();
     },
   };
 }
@@ -183,90 +201,69 @@ export function createPixQrCode(
 // Internals
 // ---------------------------------------------------------------------------
 
-function getLabels(locale: string) {
-  if (locale === 'en-US') {
-    return {
-      amountLabel: 'Amount to pay',
-      copyCode: 'Copy PIX code',
-      copied: 'Code copied!',
-      waiting: 'Waiting for payment...',
-      expiresIn: 'Expires in',
-      expired: 'QR Code expired',
-    };
-  }
-  if (locale === 'es') {
-    return {
-      amountLabel: 'Monto a pagar',
-      copyCode: 'Copiar codigo PIX',
-      copied: 'Codigo copiado!',
-      waiting: 'Esperando pago...',
-      expiresIn: 'Expira en',
-      expired: 'QR Code expirado',
-    };
-  }
-  // pt-BR (default)
-  return {
-    amountLabel: 'Valor a pagar',
-    copyCode: 'Copiar codigo PIX',
-    copied: 'Codigo copiado!',
-    waiting: 'Aguardando pagamento...',
-    expiresIn: 'Expira em',
-    expired: 'QR Code expirado',
-  };
-}
-
-function buildHtml(
+function buildDom(
   config: PixQrCodeConfig,
-  labels: ReturnType<typeof getLabels>,
+  labels: Messages,
   qrSize: number
-): string {
-  const formattedAmount = new Intl.NumberFormat('pt-BR', {
-    style: 'currency',
-    currency: 'BRL',
-  }).format(config.amount);
+): HTMLElement {
+  const formattedAmount = formatMoney(toMoney(config.amount), config.locale || 'pt-BR');
 
   const hasExpiry = !!config.expiresAt;
 
-  return `
-<div class="kairos-pix" data-kairos-pix>
-  <div class="kairos-pix__amount">
-    <span class="kairos-pix__amount-label">${labels.amountLabel}</span>
-    <span class="kairos-pix__amount-value">${formattedAmount}</span>
-  </div>
-
-  <div class="kairos-pix__qr-wrapper">
-    <img data-kairos-pix-qr
-         alt="QR Code PIX"
-         width="${qrSize}" height="${qrSize}"
-         style="display:none; border-radius: 8px;" />
-    <div data-kairos-pix-qr-placeholder class="kairos-pix__qr-placeholder"
-         style="width:${qrSize}px; height:${qrSize}px;">
-      <svg width="48" height="48" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="1.5" stroke-linecap="round" stroke-linejoin="round">
-        <rect x="3" y="3" width="7" height="7" rx="1"/><rect x="14" y="3" width="7" height="7" rx="1"/>
-        <rect x="3" y="14" width="7" height="7" rx="1"/><rect x="14" y="14" width="7" height="7" rx="1"/>
-      </svg>
-    </div>
-
-    <div data-kairos-pix-expired class="kairos-pix__expired-overlay" style="display:none;">
-      <span>${labels.expired}</span>
-    </div>
-  </div>
-
-  ${hasExpiry ? `
-  <div data-kairos-pix-expiry-row class="kairos-pix__status">
-    <span class="kairos-pix__pulse"></span>
-    <span class="kairos-pix__waiting">${labels.waiting}</span>
-    <span class="kairos-pix__timer">${labels.expiresIn} <span data-kairos-pix-countdown>--:--</span></span>
-  </div>
-  ` : ''}
-
-  <button type="button" data-kairos-pix-copy class="kairos-pix__copy-btn">
-    <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
-      <rect x="9" y="9" width="13" height="13" rx="2" ry="2"/><path d="M5 15H4a2 2 0 01-2-2V4a2 2 0 012-2h9a2 2 0 012 2v1"/>
-    </svg>
-    <span data-kairos-pix-copy-label>${labels.copyCode}</span>
-  </button>
-</div>`;
+  const placeholder = h('div', { 'data-kairos-pix-qr-placeholder': true, class: 'kairos-pix__qr-placeholder' }, [
+    svg('svg', {
+      width: 48, height: 48, viewBox: '0 0 24 24', fill: 'none', stroke: 'currentColor',
+      'stroke-width': 1.5, 'stroke-linecap': 'round', 'stroke-linejoin': 'round',
+    }, [
+      svg('rect', { x: 3, y: 3, width: 7, height: 7, rx: 1 }),
+      svg('rect', { x: 14, y: 3, width: 7, height: 7, rx: 1 }),
+      svg('rect', { x: 3, y: 14, width: 7, height: 7, rx: 1 }),
+      svg('rect', { x: 14, y: 14, width: 7, height: 7, rx: 1 }),
+    ]),
+  ]);
+  placeholder.style.width = `${qrSize}px`;
+  placeholder.style.height = `${qrSize}px`;
+
+  return h('div', { class: 'kairos-pix', 'data-kairos-pix': true }, [
+    h('div', { class: 'kairos-pix__amount' }, [
+      h('span', { class: 'kairos-pix__amount-label' }, [labels.pixAmountLabel]),
+      h('span', { class: 'kairos-pix__amount-value' }, [formattedAmount]),
+    ]),
+
+    h('div', { class: 'kairos-pix__qr-wrapper' }, [
+      h('img', {
+        'data-kairos-pix-qr': true,
+        class: 'kairos-pix__qr',
+        alt: 'QR Code PIX',
+        width: qrSize,
+        height: qrSize,
+      }),
+      placeholder,
+      h('div', { 'data-kairos-pix-expired': true, class: 'kairos-pix__expired-overlay' }, [
+        h('span', {}, [labels.pixExpired]),
+      ]),
+    ]),
+
+    hasExpiry && h('div', { 'data-kairos-pix-expiry-row': true, class: 'kairos-pix__status' }, [
+      h('span', { class: 'kairos-pix__pulse' }),
+      h('span', { class: 'kairos-pix__waiting' }, [labels.pixWaiting]),
+      h('span', { class: 'kairos-pix__timer' }, [
+        `${labels.pixExpiresIn} `,
+        h('span', { 'data-kairos-pix-countdown': true }, ['--:--']),
+      ]),
+    ]),
+
+    h('button', { type: 'button', 'data-kairos-pix-copy': true, class: 'kairos-pix__copy-btn' }, [
+      svg('svg', {
+        width: 18, height: 18, viewBox: '0 0 24 24', fill: 'none', stroke: 'currentColor',
+        'stroke-width': 2, 'stroke-linecap': 'round', 'stroke-linejoin': 'round',
+      }, [
+        svg('rect', { x: 9, y: 9, width: 13, height: 13, rx: 2, ry: 2 }),
+        svg('path', { d: 'M5 15H4a2 2 0 01-2-2V4a2 2 0 012-2h9a2 2 0 012 2v1' }),
+      ]),
+      h('span', { 'data-kairos-pix-copy-label': true }, [labels.pixCopyCode]),
+    ]),
+  ]);
 }
 
 async function resolveQrImage(config: PixQrCodeConfig, size: number): Promise<string | null> {
@@ -840,134 +837,3 @@ function getNumBlocks(version: number): number {
   ];
   return table[version] || 1;
 }
-
-// ---------------------------------------------------------------------------
-// CSS injection (idempotent — only injected once)
-// ---------------------------------------------------------------------------
-
-let stylesInjected = false;
-
-function injectStyles() {
-  if (stylesInjected) return;
-  stylesInjected = true;
-
-  const style = document.createElement('style');
-  style.textContent = `
-.kairos-pix {
-  display: flex;
-  flex-direction: column;
-  align-items: center;
-  gap: 16px;
-  font-family: var(--kairos-font, inherit);
-  color: var(--kairos-text, inherit);
-}
-
-.kairos-pix__amount {
-  text-align: center;
-}
-
-.kairos-pix__amount-label {
-  display: block;
-  font-size: 0.875rem;
-  opacity: 0.7;
-}
-
-.kairos-pix__amount-value {
-  display: block;
-  font-size: 2rem;
-  font-weight: 700;
-  margin-top: 2px;
-}
-
-.kairos-pix__qr-wrapper {
-  position: relative;
-  padding: 16px;
-  background: #fff;
-  border-radius: 16px;
-  box-shadow: 0 2px 12px rgba(0,0,0,0.08);
-}
-
-.kairos-pix__qr-placeholder {
-  display: flex;
-  align-items: center;
-  justify-content: center;
-  background: #f5f5f5;
-  border-radius: 8px;
-  color: #bbb;
-}
-
-.kairos-pix__expired-overlay {
-  position: absolute;
-  inset: 0;
-  display: flex;
-  align-items: center;
-  justify-content: center;
-  background: rgba(255,255,255,0.9);
-  border-radius: 16px;
-  font-size: 0.875rem;
-  font-weight: 600;
-  color: var(--kairos-error, #dc2626);
-}
-
-.kairos-pix__status {
-  display: flex;
-  flex-direction: column;
-  align-items: center;
-  gap: 6px;
-}
-
-.kairos-pix__pulse {
-  display: inline-block;
-  width: 8px;
-  height: 8px;
-  border-radius: 50%;
-  background: var(--kairos-primary, #2563eb);
-  animation: kairos-pix-pulse 1.5s ease-in-out infinite;
-}
-
-@keyframes kairos-pix-pulse {
-  0%, 100% { opacity: 1; transform: scale(1); }
-  50% { opacity: 0.5; transform: scale(1.3); }
-}
-
-.kairos-pix__waiting {
-  font-size: 0.875rem;
-  font-weight: 500;
-  color: var(--kairos-primary, #2563eb);
-}
-
-.kairos-pix__timer {
-  font-size: 0.75rem;
-  opacity: 0.6;
-}
-
-.kairos-pix__copy-btn {
-  display: inline-flex;
-  align-items: center;
-  justify-content: center;
-  gap: 8px;
-  width: 100%;
-  max-width: 320px;
-  padding: 12px 24px;
-  font-size: 0.9375rem;
-  font-weight: 500;
-  font-family: inherit;
-  border: 1px solid var(--kairos-border, #e2e8f0);
-  border-radius: var(--kairos-radius, 8px);
-  background: var(--kairos-bg, #fff);
-  color: var(--kairos-text, #1a1a1a);
-  cursor: pointer;
-  transition: background 0.15s, border-color 0.15s;
-}
-
-.kairos-pix__copy-btn:hover {
-  background: var(--kairos-bg-hover, #f8fafc);
-  border-color: var(--kairos-border-hover, #cbd5e1);
-}
-
-.kairos-pix__copy-btn:active {
-  transform: scale(0.98);
-}
-`;
-  document.head.appendChild(style);
-}
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { KairosPayments } from './KairosPayments';
+import { KairosPaymentError } from './errors';
+import { ErrorCode } from './errorCodes';
+import type { PspAdapter, CardData, PaymentData, TokenizationOption } from '../types';
+
+const CARD: CardData = {
+  number: '4111 1111 1111 1111',
+  holderName: 'MARIA SILVA',
+  expirationMonth: '12',
+  expirationYear: '2035',
+  cvv: '123'
+};
+
+function option(provider: string): TokenizationOption {
+  return {
+    provider,
+    providerDisplayName: provider,
+    environment: 'sandbox',
+    publicKey: `${provider}-public-key`,
+    sdk: { name: provider, scriptUrl: '' }
+  };
+}
+
+function paymentData(provider: string): PaymentData {
+  return {
+    token: `${provider}-token`,
+    installments: 1,
+    paymentMethodId: 'visa',
+    issuerId: '',
+    lastFourDigits: '1111',
+    cardholderName: CARD.holderName,
+    provider
+  };
+}
+
+/** Registers a provider whose adapters tokenize through `tokenize` */
+function registerProvider(provider: string, tokenize: PspAdapter['tokenizeCard']): void {
+  KairosPayments.registerAdapter(provider, () => ({
+    provider,
+    init: async () => {},
+    createCardPayment: vi.fn(),
+    tokenizeCard: tokenize,
+    getInstallments: async () => [],
+    destroy: () => {}
+  }));
+}
+
+async function init(onProviderSwitch = vi.fn()): Promise<KairosPayments> {
+  vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({
+    options: [option('FAILOVER_A'), option('FAILOVER_B')]
+  }))));
+  return KairosPayments.init({
+    tenantId: 'tenant',
+    failover: { maxTokenizationFailures: 1 },
+    onProviderSwitch
+  });
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('KairosPayments.tokenizeCard failover', () => {
+  it('rejects with a KairosPaymentError when the fallback provider fails too', async () => {
+    registerProvider('FAILOVER_A', vi.fn(async () => {
+      throw new Error('A is down');
+    }));
+    registerProvider('FAILOVER_B', vi.fn(async () => {
+      throw new Error('B is down');
+    }));
+    const kairos = await init();
+
+    const error = await kairos.tokenizeCard(CARD).catch(err => err);
+
+    expect(error).toBeInstanceOf(KairosPaymentError);
+    expect(error).toMatchObject({ code: ErrorCode.TOKENIZATION_ERROR, message: 'B is down' });
+    kairos.destroy();
+  });
+
+  it('lets a provider that failed once take over again after a success', async () => {
+    const tokenizeA = vi.fn()
+      .mockRejectedValueOnce(new Error('A is down'))
+      .mockResolvedValue(paymentData('FAILOVER_A'));
+    const tokenizeB = vi.fn()
+      .mockResolvedValueOnce(paymentData('FAILOVER_B'))
+      .mockRejectedValue(new Error('B is down'));
+    registerProvider('FAILOVER_A', tokenizeA);
+    registerProvider('FAILOVER_B', tokenizeB);
+    const onProviderSwitch = vi.fn();
+    const kairos = await init(onProviderSwitch);
+
+    await expect(kairos.tokenizeCard(CARD)).resolves.toMatchObject({ provider: 'FAILOVER_B' });
+    await expect(kairos.tokenizeCard(CARD)).resolves.toMatchObject({ provider: 'FAILOVER_A' });
+
+    expect(onProviderSwitch.mock.calls.map(([event]) => [event.from, event.to])).toEqual([
+      ['FAILOVER_A', 'FAILOVER_B'],
+      ['FAILOVER_B', 'FAILOVER_A']
+    ]);
+    kairos.destroy();
+  });
+});
@@ -5,11 +5,64 @@ import type {
   TokenizationOption,
   InstallmentOption,
   PspAdapter,
-  CardPaymentInstance
+  CardPaymentInstance,
+  CardPaymentHandle,
+  KairosEventMap,
+  CardData,
+  PaymentData,
+  AdapterFactory,
+  Money,
+  FormState,
+  PaymentError,
+  InitOptions,
+  RoutingRule,
+  RiskCollectionConfig,
+  RiskContext
 } from '../types';
-import { MercadoPagoAdapter } from '../adapters/MercadoPagoAdapter';
-import { PagSeguroAdapter } from '../adapters/PagSeguroAdapter';
-import { KairosEncryptedAdapter } from '../adapters/KairosEncryptedAdapter';
+import { registerAdapter, getAdapterFactory, hasAdapter, KAIROS_PROVIDER } from './adapterRegistry';
+import { KairosPaymentError, toPaymentError } from './errors';
+import { ErrorCode, getErrorDefinition, getErrorMessage } from './errorCodes';
+import { KAIROS_ROOT_KEYS } from '../crypto/keyVerification';
+import { encryptPayload } from '../crypto/encryption';
+import type { PayloadSchema, PayloadSchemas } from '../crypto/payloads';
+import { validateCardData, getFirstCardError } from '../card/validation';
+import { getMessages, getValidationMessage } from '../i18n/messages';
+import { authenticateThreeDSecure } from '../threeds/authenticate';
+import { toMoney } from './money';
+import { collectRiskContext, resolveRiskCollectionConfig } from '../risk/riskContext';
+import { TypingCadenceTracker } from '../risk/typingCadence';
+import { matchRoutingRule } from './routing';
+import { EventEmitter } from './events';
+import { request, abortError } from './http';
+import type { RoutingContext } from './routing';
+
+/** Error codes counted as tokenization failures for failover (not the customer's input) */
+const TOKENIZATION_FAILURE_CODES: string[] = [
+  ErrorCode.TOKENIZATION_ERROR,
+  ErrorCode.ENCRYPTION_ERROR,
+  ErrorCode.PROVIDER_UNAVAILABLE,
+  ErrorCode.NETWORK_ERROR
+];
+
+const DEFAULT_MAX_TOKENIZATION_FAILURES = 2;
+
+/** KairosConfig with defaults applied; routingRules stays unset to use the tenant's rules */
+type ResolvedConfig = Omit<Required<KairosConfig>, 'routingRules'> & Pick<KairosConfig, 'routingRules'>;
+
+/** A form created by createCardPayment */
+interface MountedForm {
+  handle: CardPaymentHandle;
+  container: Element | null;
+
+  /** Adapter the form is mounted on (null while unmounted) */
+  adapter: PspAdapter | null;
+
+  /** Unmount the adapter's form, keeping the entry (failover remounts it) */
+  detach(): void;
+
+  /** Mount again on the active adapter */
+  remount(): Promise<void>;
+}
 
 /**
  * Main entry point for Kairos Payments SDK.
@@ -28,10 +81,22 @@ import { KairosEncryptedAdapter } from '../adapters/KairosEncryptedAdapter';
  * ```
  */
 export class KairosPayments {
-  private config: Required<KairosConfig>;
+  private config: ResolvedConfig;
   private options: TokenizationOption[] = [];
+  private routingRules: RoutingRule[] = [];
+  /** Adapters initialized for routing rules, besides the active one */
+  private routedAdapters = new Map<string, Promise<PspAdapter>>();
   private adapter: PspAdapter | null = null;
-  private cardInstance: CardPaymentInstance | null = null;
+  private forms = new Map<string, MountedForm>();
+  private events = new EventEmitter<KairosEventMap>();
+  private formCount = 0;
+  private adapterInit: Promise<PspAdapter> | null = null;
+  private pendingFailover: Promise<PspAdapter> | null = null;
+  private failedProviders = new Set<string>();
+  /** Consecutive headless tokenization failures on the active adapter */
+  private tokenizationFailures = 0;
+  /** Aborted on destroy, cancelling the instance's requests in flight */
+  private requests = new AbortController();
 
   private constructor(config: KairosConfig) {
     this.config = {
@@ -41,23 +106,71 @@ export class KairosPayments {
       apiUrl: config.apiUrl || 'https://api.kairoshub.tech',
       preferredProvider: config.preferredProvider || undefined as any,
       locale: config.locale || 'pt-BR',
+      messages: config.messages || {},
+      pinnedKeys: config.pinnedKeys || [...KAIROS_ROOT_KEYS],
+      hostedFieldsUrl: config.hostedFieldsUrl || '',
+      riskCollection: config.riskCollection || false,
+      cspNonce: config.cspNonce || '',
+      styleMode: config.styleMode || 'inline',
+      failover: config.failover ?? true,
+      onProviderSwitch: config.onProviderSwitch || (() => {}),
+      routingRules: config.routingRules,
+      network: config.network || {},
       debug: config.debug || false
     };
   }
 
+  /**
+   * Register an adapter for a PSP, or replace a built-in one
+   * ('MERCADOPAGO', 'PAGSEGURO', 'KAIROS'). Applies to every instance; register
+   * before `createCardPayment`/`tokenizeCard` picks the adapter.
+   *
+   * @example
+   * ```typescript
+   * KairosPayments.registerAdapter('STRIPE', () => new StripeAdapter());
+   * ```
+   *
+   * @param provider - Provider name, as returned by the tokenization options endpoint
+   * @param factory - Creates a new (uninitialized) adapter
+   */
+  static registerAdapter(provider: string, factory: AdapterFactory): void {
+    registerAdapter(provider, factory);
+  }
+
   /**
    * Initialize the Kairos Payments SDK.
    * Fetches available PSPs and their public keys from the Kairos API.
+   *
+   * @example
+   * ```typescript
+   * const controller = new AbortController();
+   * const kairos = await KairosPayments.init({ tenantId: 'faithlink' }, { signal: controller.signal });
+   * ```
+   *
+   * @param config - SDK configuration
+   * @param options - `signal` cancels initialization (rejects with `ABORTED`)
    */
-  static async init(config: KairosConfig): Promise<KairosPayments> {
+  static async init(config: KairosConfig, options: InitOptions = {}): Promise<KairosPayments> {
+    const { signal } = options;
+    if (signal?.aborted) {
+      throw abortError();
+    }
+
     const instance = new KairosPayments(config);
-    await instance.fetchOptions();
+    const abort = () => instance.destroy();
+    signal?.addEventListener('abort', abort);
+    try {
+      await instance.fetchOptions();
+    } finally {
+      signal?.removeEventListener('abort', abort);
+    }
     return instance;
   }
 
   /**
    * Fetch tokenization options from Kairos API.
    * Non-fatal: if no PSP options are available, KairosEncryptedAdapter is used as fallback.
+   * Only cancellation (destroy or the init signal) rejects.
    */
   private async fetchOptions(): Promise<void> {
     const url = `${this.config.apiUrl}/api/v1/tokenization/${this.config.tenantId}/options`;
@@ -65,138 +178,691 @@ export class KairosPayments {
     this.log('Fetching tokenization options from', url);
 
     try {
-      const response = await fetch(url);
+      const response = await request<TokenizationOptions>(url, {
+        ...this.config.network,
+        signal: this.requests.signal
+      });
 
-      if (!response.ok) {
+      if (!response.ok || !response.data) {
         this.log('Failed to fetch tokenization options:', response.status);
         this.options = [];
         return;
       }
 
-      const data: TokenizationOptions = await response.json();
+      const data = response.data;
       this.options = data.options || [];
+      this.routingRules = data.routingRules || [];
 
       this.log('Available PSPs:', this.options.map(o => o.provider));
+      const unsupported = this.options.filter(o => !hasAdapter(o.provider));
+      if (unsupported.length > 0) {
+        this.log('No adapter registered for:', unsupported.map(o => o.provider));
+      }
     } catch (err) {
-      // Network error — Kairos encrypted adapter will be used as fallback
+      if (err instanceof KairosPaymentError && err.code === ErrorCode.ABORTED) {
+        throw err;
+      }
+      // Network error or timeout — Kairos encrypted adapter will be used as fallback
       this.log('Error fetching tokenization options, will use Kairos encryption:', err);
       this.options = [];
     }
   }
 
   /**
-   * Get the best available PSP adapter.
-   *
-   * Selection priority:
-   * 1. If preferredProvider is 'KAIROS', use KairosEncryptedAdapter (our own encryption)
-   * 2. If preferredProvider matches a PSP option, use that PSP adapter
-   * 3. Use the first available PSP option
-   * 4. Fallback to KairosEncryptedAdapter when no PSP has client-side tokenization
+   * Providers in failover order:
+   * 1. preferredProvider, when it's KAIROS or a PSP option with a registered adapter
+   * 2. The other PSP options with a registered adapter, in the order returned by the API
+   * 3. The Kairos encryption adapter
    */
-  private async getAdapter(): Promise<PspAdapter> {
-    if (this.adapter) {
-      return this.adapter;
+  private getProviderChain(): { provider: string; option?: TokenizationOption }[] {
+    const chain: { provider: string; option?: TokenizationOption }[] = this.getAvailableProviders()
+      .map(option => ({ provider: option.provider, option }));
+
+    const preferredIndex = chain.findIndex(entry => entry.provider === this.config.preferredProvider);
+    if (preferredIndex > 0) {
+      chain.unshift(...chain.splice(preferredIndex, 1));
     }
 
-    // If KAIROS is explicitly preferred, use our encrypted adapter directly
-    if (this.config.preferredProvider === 'KAIROS') {
-      this.log('Using Kairos Encrypted adapter (preferred)');
-      return this.initKairosAdapter();
+    if (this.config.preferredProvider === KAIROS_PROVIDER) {
+      chain.unshift({ provider: KAIROS_PROVIDER });
+    } else if (!chain.some(entry => entry.provider === KAIROS_PROVIDER)) {
+      chain.push({ provider: KAIROS_PROVIDER });
     }
 
-    // Find preferred or first available PSP
-    let option = this.options[0];
+    return chain;
+  }
 
-    if (this.config.preferredProvider) {
-      const preferred = this.options.find(
-        o => o.provider === this.config.preferredProvider
-      );
-      if (preferred) {
-        option = preferred;
-      }
+  /**
+   * Get the active adapter, initializing the first provider of the chain that
+   * hasn't failed. With failover enabled, a provider that fails to initialize
+   * is skipped for the next one. Concurrent calls share the initialization.
+   */
+  private getAdapter(): Promise<PspAdapter> {
+    if (this.adapter) {
+      return Promise.resolve(this.adapter);
     }
+    if (!this.adapterInit) {
+      this.adapterInit = this.initActiveAdapter().finally(() => {
+        this.adapterInit = null;
+      });
+    }
+    return this.adapterInit;
+  }
+
+  private async initActiveAdapter(): Promise<PspAdapter> {
+    const chain = this.getProviderChain().filter(entry => !this.failedProviders.has(entry.provider));
+    let lastError: KairosPaymentError | null = null;
+
+    for (let i = 0; i < chain.length; i++) {
+      const { provider, option } = chain[i];
+      this.log('Using provider:', provider);
+
+      try {
+        this.adapter = await this.initAdapter(provider, option);
+        return this.adapter;
+      } catch (err) {
+        lastError = toPaymentError(err, ErrorCode.INIT_ERROR, `Failed to initialize ${provider}`);
+        this.log(`Provider ${provider} failed to initialize:`, err);
+        this.failedProviders.add(provider);
 
-    // Fallback to Kairos encryption when no PSP with client-side tokenization
-    if (!option) {
-      this.log('No PSP with client-side tokenization available, falling back to Kairos encryption');
-      return this.initKairosAdapter();
+        const next = chain[i + 1];
+        if (!this.failoverEnabled() || !next) break;
+        this.config.onProviderSwitch({ from: provider, to: next.provider, reason: 'init', error: lastError.toJSON() });
+      }
     }
 
-    this.log('Using PSP:', option.provider);
+    throw lastError || new KairosPaymentError({ code: ErrorCode.INIT_ERROR, message: 'No payment provider available' });
+  }
 
-    // Create adapter based on provider
-    switch (option.provider) {
-      case 'MERCADOPAGO':
-        this.adapter = new MercadoPagoAdapter();
-        break;
-      case 'PAGSEGURO':
-        this.adapter = new PagSeguroAdapter();
-        break;
-      default:
-        // Unknown PSP — try Kairos encrypted adapter as fallback
-        this.log(`Unknown PSP provider "${option.provider}", falling back to Kairos encryption`);
-        return this.initKairosAdapter();
+  /**
+   * Replace `failed` (the active adapter) with the next provider of the chain
+   * after an init or tokenization failure. Forms mounted on it are remounted
+   * on the new adapter, in the same containers. Rejects with `error` when
+   * failover is disabled or no provider is left (the adapter is then kept).
+   */
+  private failover(reason: 'init' | 'tokenization', error: KairosPaymentError, failed: PspAdapter): Promise<PspAdapter> {
+    if (!this.failoverEnabled()) {
+      return Promise.reject(error);
+    }
+    if (this.adapter !== failed) {
+      // Another form (or tokenizeCard call) already switched away from it
+      return this.pendingFailover || this.getAdapter();
     }
 
-    // Initialize adapter with public key
-    await this.adapter.init(option.publicKey, {
-      locale: this.config.locale,
-      environment: option.environment
+    this.pendingFailover = this.switchAdapter(reason, error, failed).finally(() => {
+      this.pendingFailover = null;
     });
+    return this.pendingFailover;
+  }
+
+  private async switchAdapter(
+    reason: 'init' | 'tokenization',
+    error: KairosPaymentError,
+    failed: PspAdapter
+  ): Promise<PspAdapter> {
+    const next = this.getProviderChain().find(entry =>
+      entry.provider !== failed.provider && !this.failedProviders.has(entry.provider)
+    );
+    if (!next) {
+      throw error;
+    }
 
-    return this.adapter;
+    this.failedProviders.add(failed.provider);
+    this.adapter = null;
+
+    const forms = Array.from(this.forms.values()).filter(form => form.adapter === failed);
+    forms.forEach(form => form.detach());
+    try {
+      failed.destroy();
+    } catch {
+      // Already broken
+    }
+
+    this.log(`Switching from ${failed.provider} to ${next.provider} (${reason} failure)`);
+    this.config.onProviderSwitch({ from: failed.provider, to: next.provider, reason, error: error.toJSON() });
+
+    for (const form of forms) {
+      await form.remount();
+    }
+    return this.getAdapter();
   }
 
   /**
-   * Initialize the Kairos Encrypted adapter (our own card form + encryption).
+   * Make failed providers eligible again (for failover and routing) after a
+   * successful tokenization or an amount change: a transient failure doesn't
+   * exclude a provider for the life of the instance.
    */
-  private async initKairosAdapter(): Promise<PspAdapter> {
-    this.adapter = new KairosEncryptedAdapter();
-    await this.adapter.init('', {
-      apiUrl: this.config.apiUrl,
-      tenantId: this.config.tenantId,
-      merchantId: this.config.merchantId,
-      locale: this.config.locale,
-    });
-    return this.adapter;
+  private resetFailedProviders(): void {
+    this.failedProviders.clear();
+  }
+
+  private failoverEnabled(): boolean {
+    return this.config.failover !== false;
+  }
+
+  private maxTokenizationFailures(): number {
+    const failover = this.config.failover;
+    return (typeof failover === 'object' && failover.maxTokenizationFailures) || DEFAULT_MAX_TOKENIZATION_FAILURES;
+  }
+
+  /**
+   * Create the provider's adapter from the registry and initialize it.
+   * PSP adapters get the option's public key; every adapter gets the same
+   * SDK settings and picks what it needs.
+   */
+  private async initAdapter(provider: string, option?: TokenizationOption): Promise<PspAdapter> {
+    const factory = getAdapterFactory(provider);
+    if (!factory) {
+      throw new KairosPaymentError({
+        code: ErrorCode.CONFIGURATION_ERROR,
+        message: `No adapter registered for provider "${provider}"`
+      });
+    }
+
+    const adapter = factory();
+    try {
+      await adapter.init(option?.publicKey || '', {
+        environment: option?.environment,
+        apiUrl: this.config.apiUrl,
+        tenantId: this.config.tenantId,
+        merchantId: this.config.merchantId,
+        locale: this.config.locale,
+        messages: this.config.messages,
+        pinnedKeys: this.config.pinnedKeys,
+        hostedFieldsUrl: this.config.hostedFieldsUrl,
+        cspNonce: this.config.cspNonce,
+        styleMode: this.config.styleMode,
+        network: this.config.network
+      });
+    } catch (err) {
+      // Remove whatever the adapter managed to set up before failing
+      try {
+        adapter.destroy();
+      } catch {
+        // Ignore
+      }
+      throw err;
+    }
+    return adapter;
+  }
+
+  private getRoutingRules(): RoutingRule[] {
+    return this.config.routingRules || this.routingRules;
+  }
+
+  /**
+   * Provider the routing rules pick for the card, or null when it stays on
+   * `current` (no matching rule, or the rule's provider is unavailable).
+   */
+  private routeProvider(context: RoutingContext, current: PspAdapter): string | null {
+    const rule = matchRoutingRule(this.getRoutingRules(), context);
+    if (!rule || rule.provider === current.provider || this.failedProviders.has(rule.provider)) {
+      return null;
+    }
+
+    const available = rule.provider === KAIROS_PROVIDER
+      || this.getAvailableProviders().some(option => option.provider === rule.provider);
+    if (!available) {
+      this.log('Routing rule provider not available:', rule.provider);
+      return null;
+    }
+    return rule.provider;
+  }
+
+  /** Initialize (once) the adapter of a routed provider. */
+  private getRoutedAdapter(provider: string): Promise<PspAdapter> {
+    let adapter = this.routedAdapters.get(provider);
+    if (!adapter) {
+      adapter = this.initAdapter(provider, this.options.find(option => option.provider === provider))
+        .catch(err => {
+          this.routedAdapters.delete(provider);
+          this.failedProviders.add(provider);
+          throw err;
+        });
+      this.routedAdapters.set(provider, adapter);
+    }
+    return adapter;
+  }
+
+  /**
+   * Tokenize through the provider the routing rules pick for the card.
+   * Resolves null when the card isn't routed away from `current`, or when the
+   * routed provider fails — the caller then tokenizes with `current`.
+   */
+  private async tokenizeRouted(
+    cardData: CardData,
+    amount: Money | undefined,
+    current: PspAdapter
+  ): Promise<PaymentData | null> {
+    const provider = this.routeProvider(
+      { number: cardData.number, amount, installments: cardData.installments || 1 },
+      current
+    );
+    if (!provider) {
+      return null;
+    }
+
+    try {
+      const adapter = await this.getRoutedAdapter(provider);
+      this.log('Routing card to', provider);
+      return await adapter.tokenizeCard(cardData);
+    } catch (err) {
+      this.log(`Routed tokenization with ${provider} failed, using ${current.provider}:`, err);
+      return null;
+    }
   }
 
   /**
    * Create a card payment form.
    *
+   * Each form has its own id and lifecycle, so several can be mounted at
+   * once (split payment, modal plus inline form); they share the fetched
+   * options and the active adapter. A new form replaces the one with the same
+   * `config.id` or mounted in the same container.
+   *
+   * With failover enabled, a provider whose form fails to mount or keeps
+   * failing to tokenize is replaced by the next one, and the forms are
+   * remounted in their containers; the returned handle always controls the
+   * current form.
+   *
    * @param container - CSS selector or HTMLElement where the form will be mounted
    * @param config - Payment configuration
-   * @returns Promise resolving to a CardPaymentInstance
+   * @returns Promise resolving to the form's CardPaymentHandle
    */
   async createCardPayment(
     container: string | HTMLElement,
     config: CardPaymentConfig
-  ): Promise<CardPaymentInstance> {
-    const adapter = await this.getAdapter();
+  ): Promise<CardPaymentHandle> {
+    const id = config.id || `card-${++this.formCount}`;
+    this.log(`Creating card payment form ${id} with amount:`, config.amount);
 
-    this.log('Creating card payment form with amount:', config.amount);
+    const containerEl = typeof container === 'string'
+      ? document.querySelector(container)
+      : container;
+    this.forms.forEach(form => {
+      if (form.handle.id === id || (containerEl && form.container === containerEl)) {
+        form.handle.unmount();
+      }
+    });
 
-    this.cardInstance = await adapter.createCardPayment(container, config);
-    return this.cardInstance;
+    const riskConfig = resolveRiskCollectionConfig(this.config.riskCollection);
+    let amount = toMoney(config.amount);
+    let current: CardPaymentInstance | null = null;
+    let typing: TypingCadenceTracker | null = null;
+    let tokenizationFailures = 0;
+
+    // Form events go to the form's listeners and the instance's
+    const events = new EventEmitter<KairosEventMap>();
+    const emit = <K extends keyof KairosEventMap>(event: K, payload: KairosEventMap[K]) => {
+      events.emit(event, payload);
+      this.events.emit(event, payload);
+    };
+    let brand = '';
+    let submitting = false;
+
+    // Risk signals and 3DS run between tokenization and the integrator's
+    // onSubmit, so every adapter (and both the pay button and submit()) goes
+    // through them. Tokenization failures are counted for failover.
+    const mount = async (adapter: PspAdapter): Promise<CardPaymentInstance> => {
+      typing = riskConfig && riskConfig.typingCadence !== false && containerEl
+        ? new TypingCadenceTracker(containerEl)
+        : null;
+      const formTyping = typing;
+
+      // Routing rules are evaluated once the BIN is typed (initializing the
+      // chosen adapter ahead of submit) and again with the full card when
+      // the form tokenizes it
+      const routing = this.getRoutingRules().length > 0 && !!adapter.supportsRouting?.(config);
+
+      emit('providerSelected', { formId: id, provider: adapter.provider });
+
+      try {
+        return await adapter.createCardPayment(container, {
+          ...config,
+          amount,
+          ...(routing ? {
+            tokenize: async (cardData: CardData) => (await this.tokenizeRouted(cardData, amount, adapter))
+              || (config.tokenize ? config.tokenize(cardData) : adapter.tokenizeCard(cardData))
+          } : {}),
+          onReady: () => {
+            emit('ready', { formId: id, provider: adapter.provider });
+            config.onReady?.();
+          },
+          onChange: (state: FormState) => {
+            if (routing) {
+              const provider = state.bin ? this.routeProvider({ number: state.bin, amount }, adapter) : null;
+              if (provider) {
+                this.getRoutedAdapter(provider).catch(err => {
+                  this.log(`Routed provider ${provider} failed to initialize:`, err);
+                });
+              }
+              state = { ...state, provider: provider || adapter.provider };
+            }
+
+            emit('change', { formId: id, state });
+            if (state.cardBrand && state.cardBrand !== brand) {
+              emit('brandDetected', { formId: id, brand: state.cardBrand, bin: state.bin });
+            }
+            brand = state.cardBrand || '';
+            if (state.isSubmitting && !submitting) {
+              emit('submitStart', { formId: id });
+            }
+            submitting = state.isSubmitting;
+
+            config.onChange?.(state);
+          },
+          onInstallmentsLoaded: (installments) => {
+            emit('installmentsLoaded', { formId: id, installments });
+            config.onInstallmentsLoaded?.(installments);
+          },
+          onSubmit: async (paymentData) => {
+            tokenizationFailures = 0;
+            this.resetFailedProviders();
+            if (riskConfig) {
+              paymentData.riskContext = await this.collectRiskContext(adapter, riskConfig, formTyping);
+            }
+            if (config.threeDSecure) {
+              this.log('Running 3-D Secure authentication');
+              await authenticateThreeDSecure(
+                paymentData,
+                amount,
+                config,
+                containerEl || document.body,
+                getMessages(this.config.locale, this.config.messages)
+              );
+            }
+            emit('tokenized', { formId: id, provider: paymentData.provider, paymentData });
+            await config.onSubmit(paymentData);
+          },
+          onError: (error) => {
+            emit('error', { formId: id, error });
+            config.onError?.(error);
+            if (TOKENIZATION_FAILURE_CODES.includes(error.code)
+              && ++tokenizationFailures >= this.maxTokenizationFailures()) {
+              tokenizationFailures = 0;
+              this.failover('tokenization', new KairosPaymentError(error), adapter).catch(err => {
+                this.log('Failover failed:', err);
+              });
+            }
+          }
+        });
+      } catch (err) {
+        formTyping?.destroy();
+        throw err;
+      }
+    };
+
+    // Mount on the active adapter, moving down the provider chain while forms fail to mount
+    const mountWithFailover = async (): Promise<void> => {
+      let adapter = await this.getAdapter();
+      for (;;) {
+        try {
+          current = await mount(adapter);
+          form.adapter = adapter;
+          return;
+        } catch (err) {
+          const error = toPaymentError(err, ErrorCode.INIT_ERROR, 'Failed to create card payment form');
+          this.log(`Provider ${adapter.provider} failed to create form ${id}:`, err);
+          // Another provider won't find a missing container either
+          if (getErrorDefinition(error.code).category === 'configuration') {
+            throw error;
+          }
+          adapter = await this.failover('init', error, adapter);
+        }
+      }
+    };
+
+    const form: MountedForm = {
+      container: containerEl,
+      adapter: null,
+      handle: {
+        id,
+        updateAmount: (nextAmount: number | Money) => {
+          amount = toMoney(nextAmount, amount.currency);
+          this.resetFailedProviders();
+          current?.updateAmount(nextAmount);
+        },
+        submit: () => {
+          if (!current) {
+            return Promise.reject(new KairosPaymentError({
+              code: ErrorCode.INIT_ERROR,
+              message: 'Card payment form is not mounted'
+            }));
+          }
+          return current.submit();
+        },
+        unmount: () => {
+          form.detach();
+          if (this.forms.get(id) === form) {
+            this.forms.delete(id);
+          }
+          emit('unmounted', { formId: id });
+          events.clear();
+        },
+        on: (event, listener) => events.on(event, listener),
+        once: (event, listener) => events.once(event, listener),
+        off: (event, listener) => events.off(event, listener)
+      },
+      detach: () => {
+        typing?.destroy();
+        typing = null;
+        current?.unmount();
+        current = null;
+        form.adapter = null;
+      },
+      remount: async () => {
+        tokenizationFailures = 0;
+        brand = '';
+        submitting = false;
+        try {
+          await mountWithFailover();
+          config.onRerender?.();
+        } catch (err) {
+          const error = toPaymentError(err, ErrorCode.INIT_ERROR, 'Failed to create card payment form').toJSON();
+          emit('error', { formId: id, error });
+          config.onError?.(error);
+        }
+      }
+    };
+
+    await mountWithFailover();
+    this.forms.set(id, form);
+    return form.handle;
+  }
+
+  /**
+   * Subscribe to the events of every form of this instance and of `tokenizeCard`.
+   * Returns a function that unsubscribes.
+   *
+   * @example
+   * ```typescript
+   * kairos.on('tokenized', ({ formId, provider }) => analytics.track('card_tokenized', { formId, provider }));
+   * ```
+   */
+  on<K extends keyof KairosEventMap>(event: K, listener: (payload: KairosEventMap[K]) => void): () => void {
+    return this.events.on(event, listener);
+  }
+
+  /** Subscribe to the next occurrence of an event only. */
+  once<K extends keyof KairosEventMap>(event: K, listener: (payload: KairosEventMap[K]) => void): () => void {
+    return this.events.once(event, listener);
+  }
+
+  /** Remove a listener added with `on` or `once`. */
+  off<K extends keyof KairosEventMap>(event: K, listener: (payload: KairosEventMap[K]) => void): void {
+    this.events.off(event, listener);
+  }
+
+  /** Form created by `createCardPayment` with the given id. */
+  getCardPayment(id: string): CardPaymentHandle | undefined {
+    return this.forms.get(id)?.handle;
+  }
+
+  /** Forms currently mounted by this instance. */
+  getCardPayments(): CardPaymentHandle[] {
+    return Array.from(this.forms.values(), form => form.handle);
+  }
+
+  /**
+   * Tokenize card data collected by your own inputs, without rendering a form.
+   * Validated with the same rules as the built-in forms, then tokenized or
+   * encrypted by the active adapter — or by the provider the routing rules
+   * pick for the card (amount bands only match when `amount` is given).
+   *
+   * @example
+   * ```typescript
+   * const data = await kairos.tokenizeCard({
+   *   number: '4111 1111 1111 1111',
+   *   holderName: 'MARIA SILVA',
+   *   expirationMonth: '12',
+   *   expirationYear: '30',
+   *   cvv: '123'
+   * });
+   * ```
+   *
+   * @param cardData - Raw card fields
+   * @param amount - Payment amount, for routing rules (number = BRL major units)
+   * @returns Promise resolving to PaymentData (rejects with KairosPaymentError)
+   */
+  async tokenizeCard(cardData: CardData, amount?: number | Money): Promise<PaymentData> {
+    try {
+      const paymentData = await this.tokenizeCardData(cardData, amount);
+      this.events.emit('tokenized', { provider: paymentData.provider, paymentData });
+      return paymentData;
+    } catch (err) {
+      const error = toPaymentError(err, ErrorCode.TOKENIZATION_ERROR, 'Failed to tokenize card');
+      this.events.emit('error', { error: error.toJSON() });
+      throw error;
+    }
+  }
+
+  private async tokenizeCardData(cardData: CardData, amount?: number | Money): Promise<PaymentData> {
+    const validationError = getFirstCardError(validateCardData(cardData));
+    if (validationError) {
+      const messages = getMessages(this.config.locale, this.config.messages);
+      throw new KairosPaymentError({
+        code: ErrorCode.VALIDATION_ERROR,
+        message: getValidationMessage(validationError.code, messages),
+        field: validationError.field
+      });
+    }
+
+    let adapter = await this.getAdapter();
+
+    let paymentData = await this.tokenizeRouted(
+      cardData,
+      amount === undefined ? undefined : toMoney(amount),
+      adapter
+    );
+    if (!paymentData) {
+      this.log('Tokenizing card with', adapter.provider);
+
+      try {
+        paymentData = await adapter.tokenizeCard(cardData);
+        this.tokenizationFailures = 0;
+      } catch (err) {
+        const error = toPaymentError(err, ErrorCode.TOKENIZATION_ERROR, 'Failed to tokenize card');
+        if (!TOKENIZATION_FAILURE_CODES.includes(error.code)
+          || ++this.tokenizationFailures < this.maxTokenizationFailures()) {
+          throw error;
+        }
+
+        // Repeated failures: retry once through the next provider
+        this.tokenizationFailures = 0;
+        adapter = await this.failover('tokenization', error, adapter);
+        try {
+          paymentData = await adapter.tokenizeCard(cardData);
+        } catch (retryErr) {
+          throw toPaymentError(retryErr, ErrorCode.TOKENIZATION_ERROR, 'Failed to tokenize card');
+        }
+      }
+    }
+    this.resetFailedProviders();
+
+    const riskConfig = resolveRiskCollectionConfig(this.config.riskCollection);
+    if (riskConfig) {
+      paymentData.riskContext = await this.collectRiskContext(adapter, riskConfig, null);
+    }
+    return paymentData;
+  }
+
+  /**
+   * Encrypt other sensitive data with the merchant key: a CVV-only envelope
+   * (saved card), the cardholder's CPF/CNPJ or the billing address.
+   * The envelope carries the schema tag so the backend can tell them apart.
+   *
+   * @example
+   * ```typescript
+   * const cvvEnvelope = await kairos.encryptPayload('cvv', { cvv: '123' });
+   * const docEnvelope = await kairos.encryptPayload('document', { type: 'CPF', number: '123.456.789-09' });
+   * ```
+   *
+   * @param schema - Payload schema ('cvv', 'document', 'billingAddress' or 'card')
+   * @param payload - Payload matching the schema
+   * @returns Promise resolving to the base64 envelope (rejects with KairosPaymentError)
+   */
+  async encryptPayload<S extends PayloadSchema>(schema: S, payload: PayloadSchemas[S]): Promise<string> {
+    try {
+      return await encryptPayload(
+        schema,
+        payload,
+        this.config.apiUrl,
+        this.config.tenantId,
+        this.config.merchantId || undefined,
+        { pinnedKeys: this.config.pinnedKeys, network: this.config.network, signal: this.requests.signal }
+      );
+    } catch (err) {
+      throw toPaymentError(err, ErrorCode.ENCRYPTION_ERROR, 'Failed to encrypt data');
+    }
+  }
+
+  /**
+   * Collect the risk signals, including the adapter's device session id.
+   */
+  private collectRiskContext(
+    adapter: PspAdapter,
+    riskConfig: RiskCollectionConfig,
+    typing: TypingCadenceTracker | null
+  ): Promise<RiskContext> {
+    return collectRiskContext(riskConfig, {
+      typing: typing?.getCadence(),
+      pspDeviceIds: adapter.getDeviceSessionId
+        ? { [adapter.provider]: (signal: AbortSignal) => adapter.getDeviceSessionId!(signal) }
+        : {}
+    });
   }
 
   /**
    * Get installment options for a given amount.
    *
-   * @param amount - Payment amount in BRL
+   * @param amount - Payment amount (Money, or a number in BRL)
    * @param bin - First 6 digits of the card number
    * @returns Promise resolving to installment options
    */
-  async getInstallments(amount: number, bin: string): Promise<InstallmentOption[]> {
+  async getInstallments(amount: number | Money, bin: string): Promise<InstallmentOption[]> {
     const adapter = await this.getAdapter();
     return adapter.getInstallments(amount, bin);
   }
 
   /**
-   * Get available PSP options for this tenant.
+   * Get available PSP options for this tenant (only providers with a registered adapter).
    */
   getAvailableProviders(): TokenizationOption[] {
-    return [...this.options];
+    return this.options.filter(option => hasAdapter(option.provider));
+  }
+
+  /**
+   * Customer-facing message for an error, in the instance's locale.
+   *
+   * @example
+   * ```typescript
+   * kairos.on('error', ({ error }) => {
+   *   showBanner(kairos.getErrorMessage(error));
+   * });
+   * ```
+   */
+  getErrorMessage(error: PaymentError): string {
+    return getErrorMessage(error, getMessages(this.config.locale, this.config.messages));
   }
 
   /**
@@ -210,15 +876,20 @@ export class KairosPayments {
    * Destroy the SDK instance and cleanup resources.
    */
   destroy(): void {
-    if (this.cardInstance) {
-      this.cardInstance.unmount();
-      this.cardInstance = null;
-    }
+    this.requests.abort();
+    this.forms.forEach(form => form.handle.unmount());
+    this.forms.clear();
+    this.events.clear();
     if (this.adapter) {
       this.adapter.destroy();
       this.adapter = null;
     }
+    this.routedAdapters.forEach(adapter => {
+      adapter.then(routed => routed.destroy()).catch(() => {});
+    });
+    this.routedAdapters.clear();
     this.options = [];
+    this.failedProviders.clear();
   }
 
   private log(...args: unknown[]): void {
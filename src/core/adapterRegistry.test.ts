@@ -0,0 +1,101 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { registerAdapter, getAdapterFactory, hasAdapter, getRegisteredProviders, KAIROS_PROVIDER } from './adapterRegistry';
+import { KairosPayments } from './KairosPayments';
+import type { PspAdapter, CardData, TokenizationOption } from '../types';
+
+const CARD: CardData = {
+  number: '4111 1111 1111 1111',
+  holderName: 'MARIA SILVA',
+  expirationMonth: '12',
+  expirationYear: '2035',
+  cvv: '123'
+};
+
+function option(provider: string): TokenizationOption {
+  return {
+    provider,
+    providerDisplayName: provider,
+    environment: 'sandbox',
+    publicKey: `${provider}-public-key`,
+    sdk: { name: provider, scriptUrl: '' }
+  };
+}
+
+function fakeAdapter(provider: string): PspAdapter {
+  return {
+    provider,
+    init: vi.fn(async () => {}),
+    createCardPayment: vi.fn(),
+    tokenizeCard: vi.fn(async card => ({
+      token: `${provider}-token`,
+      installments: 1,
+      paymentMethodId: 'visa',
+      issuerId: '',
+      lastFourDigits: card.number.slice(-4),
+      cardholderName: card.holderName,
+      provider
+    })),
+    getInstallments: vi.fn(async () => []),
+    destroy: vi.fn()
+  };
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('adapter registry', () => {
+  it('registers the built-in adapters', () => {
+    expect(getRegisteredProviders()).toEqual(expect.arrayContaining(['MERCADOPAGO', 'PAGSEGURO', KAIROS_PROVIDER]));
+    expect(getAdapterFactory('PAGSEGURO')?.().provider).toBe('PAGSEGURO');
+  });
+
+  it('adds and replaces providers', () => {
+    const factory = () => fakeAdapter('REGISTRY_TEST');
+    registerAdapter('REGISTRY_TEST', factory);
+
+    expect(hasAdapter('REGISTRY_TEST')).toBe(true);
+    expect(getAdapterFactory('REGISTRY_TEST')).toBe(factory);
+
+    const replacement = () => fakeAdapter('REGISTRY_TEST');
+    registerAdapter('REGISTRY_TEST', replacement);
+    expect(getAdapterFactory('REGISTRY_TEST')).toBe(replacement);
+  });
+
+  it('rejects registrations without a provider or factory', () => {
+    expect(() => registerAdapter('', () => fakeAdapter('X'))).toThrow('provider is required');
+    expect(() => registerAdapter('X', 'nope' as any)).toThrow('must be a function');
+  });
+});
+
+describe('KairosPayments with a registered adapter', () => {
+  it('initializes the tenant provider through its registered factory', async () => {
+    const adapter = fakeAdapter('CUSTOM_PSP');
+    KairosPayments.registerAdapter('CUSTOM_PSP', () => adapter);
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ options: [option('CUSTOM_PSP')] }))));
+
+    const kairos = await KairosPayments.init({ tenantId: 'tenant', apiUrl: 'https://api.test' });
+    const paymentData = await kairos.tokenizeCard(CARD);
+
+    expect(adapter.init).toHaveBeenCalledWith('CUSTOM_PSP-public-key', expect.objectContaining({
+      apiUrl: 'https://api.test',
+      tenantId: 'tenant'
+    }));
+    expect(adapter.tokenizeCard).toHaveBeenCalledWith(expect.objectContaining({ cvv: '123' }));
+    expect(paymentData).toMatchObject({ token: 'CUSTOM_PSP-token', provider: 'CUSTOM_PSP' });
+
+    kairos.destroy();
+    expect(adapter.destroy).toHaveBeenCalled();
+  });
+
+  it('hides tenant providers without a registered adapter', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({
+      options: [option('UNREGISTERED'), option('PAGSEGURO')]
+    }))));
+
+    const kairos = await KairosPayments.init({ tenantId: 'tenant' });
+
+    expect(kairos.getAvailableProviders().map(o => o.provider)).toEqual(['PAGSEGURO']);
+    kairos.destroy();
+  });
+});
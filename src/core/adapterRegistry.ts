@@ -0,0 +1,46 @@
+/**
+ * Adapter registry — maps a provider name (as returned by the tokenization
+ * options endpoint) to the factory creating its PspAdapter.
+ *
+ * The built-in adapters are registered here; integrators add their own PSPs
+ * (or replace a built-in) with `KairosPayments.registerAdapter`. The registry
+ * is shared by every KairosPayments instance on the page.
+ */
+
+import type { AdapterFactory } from '../types';
+import { MercadoPagoAdapter } from '../adapters/MercadoPagoAdapter';
+import { PagSeguroAdapter } from '../adapters/PagSeguroAdapter';
+import { KairosEncryptedAdapter } from '../adapters/KairosEncryptedAdapter';
+
+/** Provider of the Kairos encryption adapter, used when no PSP is available */
+export const KAIROS_PROVIDER = 'KAIROS';
+
+const factories = new Map<string, AdapterFactory>([
+  ['MERCADOPAGO', () => new MercadoPagoAdapter()],
+  ['PAGSEGURO', () => new PagSeguroAdapter()],
+  [KAIROS_PROVIDER, () => new KairosEncryptedAdapter()],
+]);
+
+/** Register (or replace) the adapter factory for a provider. */
+export function registerAdapter(provider: string, factory: AdapterFactory): void {
+  if (!provider) {
+    throw new Error('registerAdapter: provider is required');
+  }
+  if (typeof factory !== 'function') {
+    throw new Error(`registerAdapter: factory for "${provider}" must be a function`);
+  }
+  factories.set(provider, factory);
+}
+
+export function getAdapterFactory(provider: string): AdapterFactory | undefined {
+  return factories.get(provider);
+}
+
+export function hasAdapter(provider: string): boolean {
+  return factories.has(provider);
+}
+
+/** Providers with a registered adapter (built-ins included). */
+export function getRegisteredProviders(): string[] {
+  return Array.from(factories.keys());
+}
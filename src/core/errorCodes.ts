@@ -0,0 +1,112 @@
+/**
+ * Error taxonomy — every code the SDK reports in `PaymentError.code`, with
+ * its category, whether retrying can succeed, the field it usually concerns
+ * and the catalog message to show the customer.
+ *
+ * PSP errors are translated into these codes by the adapters (see
+ * adapters/pspErrors.ts), so integrators handle one set of codes whatever
+ * the provider.
+ */
+
+import type { PaymentError } from '../types';
+import type { Messages, MessageKey } from '../i18n/messages';
+
+export enum ErrorCode {
+  // Validation
+  VALIDATION_ERROR = 'VALIDATION_ERROR',
+  SUBMIT_IN_PROGRESS = 'SUBMIT_IN_PROGRESS',
+
+  // Network
+  NETWORK_ERROR = 'NETWORK_ERROR',
+  TIMEOUT = 'TIMEOUT',
+  ABORTED = 'ABORTED',
+
+  // Provider
+  INIT_ERROR = 'INIT_ERROR',
+  PROVIDER_UNAVAILABLE = 'PROVIDER_UNAVAILABLE',
+  TOKENIZATION_ERROR = 'TOKENIZATION_ERROR',
+  SUBMIT_ERROR = 'SUBMIT_ERROR',
+  UNKNOWN_ERROR = 'UNKNOWN_ERROR',
+
+  // Security
+  ENCRYPTION_ERROR = 'ENCRYPTION_ERROR',
+  UNTRUSTED_ENCRYPTION_KEY = 'UNTRUSTED_ENCRYPTION_KEY',
+  UNKNOWN_KEY_ID = 'UNKNOWN_KEY_ID',
+  AUTHENTICATION_ERROR = 'AUTHENTICATION_ERROR',
+  AUTHENTICATION_FAILED = 'AUTHENTICATION_FAILED',
+  AUTHENTICATION_CANCELLED = 'AUTHENTICATION_CANCELLED',
+  AUTHENTICATION_TIMEOUT = 'AUTHENTICATION_TIMEOUT',
+
+  // Configuration
+  CONFIGURATION_ERROR = 'CONFIGURATION_ERROR',
+}
+
+export type ErrorCategory = 'validation' | 'network' | 'provider' | 'security' | 'configuration';
+
+export interface ErrorDefinition {
+  category: ErrorCategory;
+
+  /** Whether the same operation can succeed if tried again */
+  retryable: boolean;
+
+  /** Field the error concerns, when it's always the same one */
+  field?: string;
+
+  /** Customer-facing message */
+  message: MessageKey;
+}
+
+export const ERROR_DEFINITIONS: Record<ErrorCode, ErrorDefinition> = {
+  [ErrorCode.VALIDATION_ERROR]: { category: 'validation', retryable: false, message: 'errorValidation' },
+  [ErrorCode.SUBMIT_IN_PROGRESS]: { category: 'validation', retryable: false, message: 'errorSubmitInProgress' },
+
+  [ErrorCode.NETWORK_ERROR]: { category: 'network', retryable: true, message: 'errorNetwork' },
+  [ErrorCode.TIMEOUT]: { category: 'network', retryable: true, message: 'errorTimeout' },
+  // Cancelled by the integrator (AbortSignal or destroy()), not a customer-facing failure
+  [ErrorCode.ABORTED]: { category: 'network', retryable: false, message: 'errorUnknown' },
+
+  [ErrorCode.INIT_ERROR]: { category: 'provider', retryable: true, message: 'initError' },
+  [ErrorCode.PROVIDER_UNAVAILABLE]: { category: 'provider', retryable: true, message: 'errorProvider' },
+  [ErrorCode.TOKENIZATION_ERROR]: { category: 'provider', retryable: true, message: 'errorTokenization' },
+  [ErrorCode.SUBMIT_ERROR]: { category: 'provider', retryable: true, message: 'processingError' },
+  [ErrorCode.UNKNOWN_ERROR]: { category: 'provider', retryable: false, message: 'errorUnknown' },
+
+  [ErrorCode.ENCRYPTION_ERROR]: { category: 'security', retryable: true, message: 'errorSecurity' },
+  [ErrorCode.UNTRUSTED_ENCRYPTION_KEY]: { category: 'security', retryable: false, message: 'errorUntrustedKey' },
+  [ErrorCode.UNKNOWN_KEY_ID]: { category: 'security', retryable: true, message: 'errorSecurity' },
+  [ErrorCode.AUTHENTICATION_ERROR]: { category: 'security', retryable: true, message: 'errorAuthentication' },
+  [ErrorCode.AUTHENTICATION_FAILED]: { category: 'security', retryable: false, message: 'errorAuthenticationFailed' },
+  [ErrorCode.AUTHENTICATION_CANCELLED]: { category: 'security', retryable: true, message: 'errorAuthenticationCancelled' },
+  [ErrorCode.AUTHENTICATION_TIMEOUT]: { category: 'security', retryable: true, message: 'errorAuthenticationTimeout' },
+
+  [ErrorCode.CONFIGURATION_ERROR]: { category: 'configuration', retryable: false, message: 'errorConfiguration' },
+};
+
+/** Validation messages per field, for VALIDATION_ERROR */
+const FIELD_MESSAGES: Record<string, MessageKey> = {
+  cardNumber: 'invalidCardNumber',
+  expiry: 'invalidExpiry',
+  cvv: 'invalidCvv',
+  cardholderName: 'invalidCardholderName',
+};
+
+export function isErrorCode(code: string): code is ErrorCode {
+  return Object.prototype.hasOwnProperty.call(ERROR_DEFINITIONS, code);
+}
+
+/** Definition of a code; codes outside the taxonomy are treated as UNKNOWN_ERROR. */
+export function getErrorDefinition(code: string): ErrorDefinition {
+  return ERROR_DEFINITIONS[isErrorCode(code) ? code : ErrorCode.UNKNOWN_ERROR];
+}
+
+/**
+ * Localized, customer-facing message for an error. Unlike `PaymentError.message`
+ * (which may carry the PSP's technical text), it's always from the catalog.
+ */
+export function getErrorMessage(error: Pick<PaymentError, 'code' | 'field'>, messages: Messages): string {
+  if (error.code === ErrorCode.VALIDATION_ERROR && error.field
+    && Object.prototype.hasOwnProperty.call(FIELD_MESSAGES, error.field)) {
+    return messages[FIELD_MESSAGES[error.field]];
+  }
+  return messages[getErrorDefinition(error.code).message];
+}
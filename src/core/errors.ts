@@ -0,0 +1,63 @@
+import type { PaymentError } from '../types';
+import { getErrorDefinition } from './errorCodes';
+import type { ErrorCategory } from './errorCodes';
+
+/**
+ * Error thrown (or used to reject) by SDK methods such as
+ * `CardPaymentInstance.submit()`. Carries the same fields as the
+ * `PaymentError` passed to `onError`, so callers can handle both alike.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   const data = await instance.submit();
+ * } catch (err) {
+ *   if (err instanceof KairosPaymentError && err.code === ErrorCode.VALIDATION_ERROR) {
+ *     highlight(err.field);
+ *   } else if (err instanceof KairosPaymentError && err.retryable) {
+ *     showRetry();
+ *   }
+ * }
+ * ```
+ */
+export class KairosPaymentError extends Error implements PaymentError {
+  readonly code: string;
+  readonly category: ErrorCategory;
+  readonly retryable: boolean;
+  readonly field?: string;
+  readonly cause?: unknown;
+
+  /** Category and retryability default to the code's (see ErrorCode). */
+  constructor(error: PaymentError) {
+    super(error.message);
+    const definition = getErrorDefinition(error.code);
+    this.name = 'KairosPaymentError';
+    this.code = error.code;
+    this.category = error.category || definition.category;
+    this.retryable = error.retryable ?? definition.retryable;
+    this.field = error.field || definition.field;
+    this.cause = error.cause;
+  }
+
+  /** Plain `PaymentError` object (for `onError` callbacks and serialization). */
+  toJSON(): PaymentError {
+    return {
+      code: this.code,
+      message: this.message,
+      category: this.category,
+      retryable: this.retryable,
+      ...(this.field ? { field: this.field } : {}),
+      ...(this.cause !== undefined ? { cause: this.cause } : {}),
+    };
+  }
+}
+
+/**
+ * Normalize anything thrown into a KairosPaymentError, keeping errors that
+ * already are one untouched.
+ */
+export function toPaymentError(err: unknown, code: string, fallbackMessage: string): KairosPaymentError {
+  if (err instanceof KairosPaymentError) return err;
+  const message = (err as { message?: string } | null)?.message || fallbackMessage;
+  return new KairosPaymentError({ code, message, cause: err });
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi } from 'vitest';
+import { EventEmitter } from './events';
+
+interface TestEvents {
+  ready: { formId: string };
+  change: { value: number };
+}
+
+describe('EventEmitter', () => {
+  it('calls listeners in subscription order with the payload', () => {
+    const emitter = new EventEmitter<TestEvents>();
+    const calls: string[] = [];
+    emitter.on('ready', ({ formId }) => calls.push(`a:${formId}`));
+    emitter.on('ready', ({ formId }) => calls.push(`b:${formId}`));
+
+    emitter.emit('ready', { formId: 'card-1' });
+
+    expect(calls).toEqual(['a:card-1', 'b:card-1']);
+  });
+
+  it('only calls listeners of the emitted event', () => {
+    const emitter = new EventEmitter<TestEvents>();
+    const listener = vi.fn();
+    emitter.on('change', listener);
+
+    emitter.emit('ready', { formId: 'card-1' });
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('calls once listeners a single time', () => {
+    const emitter = new EventEmitter<TestEvents>();
+    const listener = vi.fn();
+    emitter.once('change', listener);
+
+    emitter.emit('change', { value: 1 });
+    emitter.emit('change', { value: 2 });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ value: 1 });
+  });
+
+  it('unsubscribes with off and with the returned function', () => {
+    const emitter = new EventEmitter<TestEvents>();
+    const first = vi.fn();
+    const second = vi.fn();
+    emitter.on('change', first);
+    const unsubscribe = emitter.on('change', second);
+
+    emitter.off('change', first);
+    unsubscribe();
+    emitter.emit('change', { value: 1 });
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second).not.toHaveBeenCalled();
+  });
+
+  it('keeps calling listeners after one throws', () => {
+    const emitter = new EventEmitter<TestEvents>();
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const after = vi.fn();
+    emitter.on('change', () => {
+      throw new Error('listener bug');
+    });
+    emitter.on('change', after);
+
+    expect(() => emitter.emit('change', { value: 1 })).not.toThrow();
+    expect(after).toHaveBeenCalled();
+    expect(error).toHaveBeenCalledWith('[Kairos] "change" listener failed:', expect.any(Error));
+    error.mockRestore();
+  });
+
+  it('applies an off() made by a listener from the next emit', () => {
+    const emitter = new EventEmitter<TestEvents>();
+    const second = vi.fn();
+    emitter.on('change', () => emitter.off('change', second));
+    emitter.on('change', second);
+
+    emitter.emit('change', { value: 1 });
+    emitter.emit('change', { value: 2 });
+
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+
+  it('removes every listener on clear', () => {
+    const emitter = new EventEmitter<TestEvents>();
+    const listener = vi.fn();
+    emitter.on('ready', listener);
+    emitter.on('change', listener);
+
+    emitter.clear();
+    emitter.emit('ready', { formId: 'card-1' });
+    emitter.emit('change', { value: 1 });
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Typed event emitter behind `KairosPayments.on` and `CardPaymentHandle.on`.
+ *
+ * Listeners run synchronously, in subscription order. A listener that throws
+ * is reported on the console and doesn't stop the other listeners — or the
+ * checkout that emitted the event.
+ */
+
+export type Listener<T> = (payload: T) => void;
+
+interface Subscription {
+  listener: Listener<any>;
+  once: boolean;
+}
+
+export class EventEmitter<Events extends object> {
+  private subscriptions = new Map<keyof Events, Subscription[]>();
+
+  /** Subscribe to an event. Returns a function that unsubscribes. */
+  on<K extends keyof Events>(event: K, listener: Listener<Events[K]>): () => void {
+    return this.subscribe(event, listener, false);
+  }
+
+  /** Subscribe to the next occurrence of an event only. */
+  once<K extends keyof Events>(event: K, listener: Listener<Events[K]>): () => void {
+    return this.subscribe(event, listener, true);
+  }
+
+  /** Remove a listener added with `on` or `once`. */
+  off<K extends keyof Events>(event: K, listener: Listener<Events[K]>): void {
+    const subscriptions = this.subscriptions.get(event);
+    if (!subscriptions) return;
+
+    const remaining = subscriptions.filter(subscription => subscription.listener !== listener);
+    if (remaining.length > 0) {
+      this.subscriptions.set(event, remaining);
+    } else {
+      this.subscriptions.delete(event);
+    }
+  }
+
+  emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    const subscriptions = this.subscriptions.get(event);
+    if (!subscriptions) return;
+
+    for (const subscription of subscriptions.slice()) {
+      if (subscription.once) {
+        this.off(event, subscription.listener);
+      }
+      try {
+        subscription.listener(payload);
+      } catch (err) {
+        console.error(`[Kairos] "${String(event)}" listener failed:`, err);
+      }
+    }
+  }
+
+  /** Remove every listener. */
+  clear(): void {
+    this.subscriptions.clear();
+  }
+
+  private subscribe<K extends keyof Events>(event: K, listener: Listener<Events[K]>, once: boolean): () => void {
+    const subscriptions = this.subscriptions.get(event) || [];
+    this.subscriptions.set(event, [...subscriptions, { listener, once }]);
+    return () => this.off(event, listener);
+  }
+}
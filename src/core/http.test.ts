@@ -0,0 +1,187 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { request } from './http';
+import { ErrorCode } from './errorCodes';
+import { KairosPayments } from './KairosPayments';
+
+/** fetch that only settles when its request is aborted */
+function hangingFetch() {
+  return vi.fn((_url: string, init?: RequestInit) => new Promise<Response>((_resolve, reject) => {
+    init?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+  }));
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status });
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('request', () => {
+  it('resolves with the status and parsed JSON body', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => json({ ok: 1 })));
+
+    await expect(request('https://api.test/a')).resolves.toEqual({ ok: true, status: 200, data: { ok: 1 } });
+  });
+
+  it('resolves error statuses and non-JSON bodies for the caller to handle', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('not json', { status: 400 })));
+
+    await expect(request('https://api.test/a')).resolves.toEqual({ ok: false, status: 400, data: null });
+  });
+
+  it('retries GET requests on retryable statuses with backoff', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(json({}, 503))
+      .mockResolvedValueOnce(json({}, 429))
+      .mockResolvedValueOnce(json({ done: true }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const response = request('https://api.test/a');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    // First retry after ~300ms (±25%), second after ~600ms
+    await vi.advanceTimersByTimeAsync(375);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(750);
+
+    await expect(response).resolves.toMatchObject({ ok: true, data: { done: true } });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('returns the last response once retries run out', async () => {
+    const fetchMock = vi.fn(async () => json({}, 500));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const response = request('https://api.test/a', { retries: 1 });
+    await vi.runAllTimersAsync();
+
+    await expect(response).resolves.toMatchObject({ ok: false, status: 500 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("doesn't retry statuses that won't change", async () => {
+    const fetchMock = vi.fn(async () => json({}, 404));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(request('https://api.test/a')).resolves.toMatchObject({ status: 404 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects with NETWORK_ERROR after retrying network failures', async () => {
+    const fetchMock = vi.fn(async () => {
+      throw new TypeError('Failed to fetch');
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const response = request('https://api.test/a', { retries: 2 });
+    const assertion = expect(response).rejects.toMatchObject({ code: ErrorCode.NETWORK_ERROR, retryable: true });
+    await vi.runAllTimersAsync();
+
+    await assertion;
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('sends other methods once', async () => {
+    const fetchMock = vi.fn(async (): Promise<Response> => {
+      throw new TypeError('Failed to fetch');
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(request('https://api.test/a', { method: 'POST', body: '{}', retries: 3 }))
+      .rejects.toMatchObject({ code: ErrorCode.NETWORK_ERROR });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    fetchMock.mockResolvedValue(json({}, 503));
+    await expect(request('https://api.test/a', { method: 'POST' })).resolves.toMatchObject({ status: 503 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('times out each attempt', async () => {
+    const fetchMock = hangingFetch();
+    vi.stubGlobal('fetch', fetchMock);
+
+    const response = request('https://api.test/a', { timeout: 1000, retries: 1 });
+    const assertion = expect(response).rejects.toMatchObject({
+      code: ErrorCode.TIMEOUT,
+      message: 'Request timed out after 1000ms'
+    });
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.runAllTimersAsync();
+
+    await assertion;
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects with ABORTED when the signal aborts, without retrying', async () => {
+    const fetchMock = hangingFetch();
+    vi.stubGlobal('fetch', fetchMock);
+    const controller = new AbortController();
+
+    const response = request('https://api.test/a', { signal: controller.signal });
+    const assertion = expect(response).rejects.toMatchObject({ code: ErrorCode.ABORTED, retryable: false });
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort();
+    await vi.runAllTimersAsync();
+
+    await assertion;
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops waiting for a retry when the signal aborts', async () => {
+    const fetchMock = vi.fn(async () => json({}, 503));
+    vi.stubGlobal('fetch', fetchMock);
+    const controller = new AbortController();
+
+    const response = request('https://api.test/a', { signal: controller.signal });
+    const assertion = expect(response).rejects.toMatchObject({ code: ErrorCode.ABORTED });
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort();
+
+    await assertion;
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("doesn't send requests with an aborted signal", async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(request('https://api.test/a', { signal: AbortSignal.abort() }))
+      .rejects.toMatchObject({ code: ErrorCode.ABORTED });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
+describe('KairosPayments.init cancellation', () => {
+  it('rejects with ABORTED when the init signal aborts', async () => {
+    vi.stubGlobal('fetch', hangingFetch());
+    const controller = new AbortController();
+
+    const init = KairosPayments.init({ tenantId: 'tenant' }, { signal: controller.signal });
+    const assertion = expect(init).rejects.toMatchObject({ code: ErrorCode.ABORTED });
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort();
+
+    await assertion;
+  });
+
+  it('falls back to Kairos encryption when the options request times out', async () => {
+    vi.stubGlobal('fetch', hangingFetch());
+
+    const init = KairosPayments.init({ tenantId: 'tenant', network: { timeout: 500, retries: 0 } });
+    await vi.advanceTimersByTimeAsync(500);
+    const kairos = await init;
+
+    expect(kairos.getAvailableProviders()).toEqual([]);
+    kairos.destroy();
+  });
+});
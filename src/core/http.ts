@@ -0,0 +1,151 @@
+/**
+ * HTTP layer for the SDK's own requests (tokenization options, encryption
+ * keys, installment plans, PSP tokenization endpoints).
+ *
+ * Every attempt has a timeout. GET requests are idempotent, so network
+ * errors, timeouts and 408/429/5xx responses are retried with exponential
+ * backoff; other methods are sent once. A request can be cancelled with an
+ * AbortSignal — `KairosPayments.destroy()` cancels everything in flight.
+ *
+ * Failures reject with a KairosPaymentError (`NETWORK_ERROR`, `TIMEOUT` or
+ * `ABORTED`); error statuses resolve with `ok: false` for the caller to map.
+ */
+
+import type { NetworkConfig } from '../types';
+import { ErrorCode } from './errorCodes';
+import { KairosPaymentError } from './errors';
+
+export interface RequestOptions extends NetworkConfig {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string;
+  signal?: AbortSignal;
+}
+
+export interface HttpResponse<T = any> {
+  ok: boolean;
+  status: number;
+
+  /** Parsed JSON body (null when empty or not JSON) */
+  data: T | null;
+}
+
+export const DEFAULT_TIMEOUT = 10_000;
+export const DEFAULT_RETRIES = 2;
+
+/** Delay before the first retry; doubles on each one */
+const RETRY_BASE_DELAY = 300;
+
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+
+/**
+ * Send a request and parse its JSON body.
+ *
+ * @example
+ * ```typescript
+ * const res = await request(`${apiUrl}/api/v1/tokenization/${tenantId}/options`, { signal });
+ * if (res.ok) useOptions(res.data);
+ * ```
+ */
+export async function request<T = any>(url: string, options: RequestOptions = {}): Promise<HttpResponse<T>> {
+  const method = (options.method || 'GET').toUpperCase();
+  const retries = method === 'GET' ? Math.max(0, options.retries ?? DEFAULT_RETRIES) : 0;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const response = await attemptRequest<T>(url, method, options);
+      if (attempt < retries && RETRYABLE_STATUSES.includes(response.status)) {
+        await backoff(attempt, options.signal);
+        continue;
+      }
+      return response;
+    } catch (err) {
+      const retryable = err instanceof KairosPaymentError
+        && (err.code === ErrorCode.NETWORK_ERROR || err.code === ErrorCode.TIMEOUT);
+      if (!retryable || attempt >= retries) {
+        throw err;
+      }
+      await backoff(attempt, options.signal);
+    }
+  }
+}
+
+async function attemptRequest<T>(url: string, method: string, options: RequestOptions): Promise<HttpResponse<T>> {
+  const { signal } = options;
+  if (signal?.aborted) {
+    throw abortError();
+  }
+
+  const timeout = options.timeout ?? DEFAULT_TIMEOUT;
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = timeout > 0
+    ? setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeout)
+    : undefined;
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort);
+
+  try {
+    // The timeout also covers reading the body
+    const response = await fetch(url, {
+      method,
+      headers: options.headers,
+      body: options.body,
+      signal: controller.signal,
+    });
+    const text = await response.text();
+    return { ok: response.ok, status: response.status, data: parseJson<T>(text) };
+  } catch (err) {
+    if (timedOut) {
+      throw new KairosPaymentError({
+        code: ErrorCode.TIMEOUT,
+        message: `Request timed out after ${timeout}ms`,
+        cause: err,
+      });
+    }
+    if (signal?.aborted) {
+      throw abortError(err);
+    }
+    throw new KairosPaymentError({ code: ErrorCode.NETWORK_ERROR, message: `Network request failed: ${url}`, cause: err });
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+function parseJson<T>(text: string): T | null {
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+/** Wait before retry `attempt + 1`: 300ms, 600ms, 1.2s… with ±25% jitter. */
+function backoff(attempt: number, signal?: AbortSignal): Promise<void> {
+  const delay = RETRY_BASE_DELAY * 2 ** attempt * (0.75 + Math.random() / 2);
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, delay);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export function abortError(cause?: unknown): KairosPaymentError {
+  return new KairosPaymentError({ code: ErrorCode.ABORTED, message: 'Request aborted', cause });
+}
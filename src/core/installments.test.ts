@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  calculateInstallments,
+  buildInstallmentOption,
+  getInstallmentPlans,
+  clearInstallmentsCache
+} from './installments';
+import type { Money } from '../types';
+
+const AMOUNT: Money = { amount: 10000, currency: 'BRL' };
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  clearInstallmentsCache();
+});
+
+describe('buildInstallmentOption', () => {
+  it('splits the total in minor units with the remainder on the first installment', () => {
+    const option = buildInstallmentOption(3, AMOUNT, { interestFree: true });
+    expect(option.installmentMoney).toEqual({ amount: 3333, currency: 'BRL' });
+    expect(option.totalMoney).toEqual(AMOUNT);
+    expect(option.installmentAmount).toBe(33.33);
+    expect(option.totalAmount).toBe(100);
+  });
+
+  it('keeps an installment amount quoted by the PSP', () => {
+    const option = buildInstallmentOption(3, { amount: 10599, currency: 'BRL' }, { interestFree: false }, {
+      amount: 3534,
+      currency: 'BRL',
+    });
+    expect(option.installmentAmount).toBe(35.34);
+    expect(option.totalAmount).toBe(105.99);
+  });
+});
+
+describe('calculateInstallments', () => {
+  it('offers interest-free installments, then compound monthly interest', () => {
+    const options = calculateInstallments(AMOUNT);
+    expect(options).toHaveLength(12);
+    expect(options.slice(0, 3).map(o => o.totalMoney.amount)).toEqual([10000, 10000, 10000]);
+    expect(options[3]).toMatchObject({ installments: 4, interestFree: false, interestRate: 1.99 });
+    expect(options[3].totalMoney.amount).toBe(10820);
+    expect(options[11].totalMoney.amount).toBe(12668);
+    expect(options[0].recommended).toBe(true);
+  });
+
+  it('respects the minimum installment amount, always offering one installment', () => {
+    const options = calculateInstallments({ amount: 1200, currency: 'BRL' }, { minInstallmentAmount: 5 });
+    expect(options.map(o => o.installments)).toEqual([1, 2]);
+
+    expect(calculateInstallments({ amount: 100, currency: 'BRL' }).map(o => o.installments)).toEqual([1]);
+  });
+
+  it('applies custom rules', () => {
+    const options = calculateInstallments(AMOUNT, { maxInstallments: 6, interestFreeInstallments: 6 });
+    expect(options).toHaveLength(6);
+    expect(options.every(o => o.interestFree)).toBe(true);
+  });
+
+  it('works in zero-decimal currencies', () => {
+    const options = calculateInstallments({ amount: 100000, currency: 'CLP' }, { maxInstallments: 3 });
+    expect(options[2].installmentMoney).toEqual({ amount: 33333, currency: 'CLP' });
+  });
+});
+
+describe('getInstallmentPlans', () => {
+  const source = { apiUrl: 'https://api.test', tenantId: 'tenant', merchantId: 'merchant' };
+
+  it('uses the server plans', async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({
+      installments: [
+        { installments: 1, totalAmount: 100, interestFree: true },
+        { installments: 2, totalAmount: 104.5, interestRate: 1.5 },
+      ],
+    })));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const options = await getInstallmentPlans(source, AMOUNT, '411111');
+
+    expect(options.map(o => o.totalMoney.amount)).toEqual([10000, 10450]);
+    expect(options[1]).toMatchObject({ interestFree: false, interestRate: 1.5 });
+    const url = new URL(String((fetchMock.mock.calls[0] as unknown[])[0]));
+    expect(url.pathname).toBe('/api/v1/tokenization/tenant/installments');
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      amount: '100.00',
+      currency: 'BRL',
+      bin: '411111',
+      merchantId: 'merchant',
+    });
+  });
+
+  it('caches plans per amount and BIN', async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({
+      installments: [{ installments: 1, totalAmount: 100 }],
+    })));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await getInstallmentPlans(source, AMOUNT, '411111');
+    await getInstallmentPlans(source, AMOUNT, '411111');
+    await getInstallmentPlans(source, AMOUNT, '555555');
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('falls back to local rules when the endpoint fails', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('', { status: 404 })));
+
+    const options = await getInstallmentPlans(source, AMOUNT, '411111', { maxInstallments: 2 });
+
+    expect(options.map(o => o.installments)).toEqual([1, 2]);
+  });
+
+  it('computes locally without a tenant', async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+
+    const options = await getInstallmentPlans(null, AMOUNT, '411111');
+
+    expect(options).toHaveLength(12);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
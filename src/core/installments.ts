@@ -0,0 +1,164 @@
+/**
+ * Installment plans.
+ *
+ * Plans come from the Kairos tokenization endpoint, which applies the
+ * tenant/merchant-specific rates and promotions configured in the console.
+ * Responses are cached per (merchant, amount, BIN). When the endpoint is
+ * unavailable, plans are computed locally from `CardPaymentConfig.installmentRules`.
+ */
+
+import type { InstallmentOption, InstallmentRules, Money, NetworkConfig } from '../types';
+import { allocate, fromMajorUnits, toMajorUnits, CURRENCY_DECIMALS } from './money';
+import { request } from './http';
+
+export interface InstallmentSource {
+  apiUrl: string;
+  tenantId: string;
+  merchantId?: string;
+  network?: NetworkConfig;
+  signal?: AbortSignal;
+}
+
+/** Local fallback used when no rules are configured */
+export const DEFAULT_INSTALLMENT_RULES: Required<InstallmentRules> = {
+  maxInstallments: 12,
+  interestFreeInstallments: 3,
+  monthlyInterestRate: 1.99,
+  minInstallmentAmount: 5,
+};
+
+// Cache server plans per (tenant, merchant, amount, BIN)
+const plansCache = new Map<string, { options: InstallmentOption[]; timestamp: number }>();
+const CACHE_TTL = 10 * 60 * 1000; // 10 minutes (rates change rarely, promotions may change daily)
+
+/**
+ * Fetch installment plans from the Kairos tokenization endpoint.
+ * Throws when the endpoint is unreachable or returns an error status.
+ */
+export async function fetchInstallmentPlans(
+  source: InstallmentSource,
+  amount: Money,
+  bin: string
+): Promise<InstallmentOption[]> {
+  const cacheKey = [source.tenantId, source.merchantId || '', amount.currency, amount.amount, bin].join(':');
+  const now = Date.now();
+  const cached = plansCache.get(cacheKey);
+  if (cached && now - cached.timestamp < CACHE_TTL) {
+    return cached.options;
+  }
+
+  const params = new URLSearchParams({
+    amount: toMajorUnits(amount).toFixed(CURRENCY_DECIMALS[amount.currency]),
+    currency: amount.currency,
+  });
+  if (bin) params.set('bin', bin);
+  if (source.merchantId) params.set('merchantId', source.merchantId);
+
+  const res = await request(
+    `${source.apiUrl}/api/v1/tokenization/${source.tenantId}/installments?${params.toString()}`,
+    { ...source.network, signal: source.signal }
+  );
+  if (!res.ok) {
+    throw new Error(`Failed to fetch installment plans: ${res.status}`);
+  }
+
+  const options: InstallmentOption[] = (res.data?.installments || []).map((plan: any, index: number) =>
+    buildInstallmentOption(plan.installments, fromMajorUnits(plan.totalAmount, amount.currency), {
+      interestFree: plan.interestFree ?? plan.interestRate === 0,
+      interestRate: plan.interestRate,
+      recommended: plan.recommended ?? index === 0,
+    })
+  );
+
+  plansCache.set(cacheKey, { options, timestamp: now });
+  return options;
+}
+
+/**
+ * Build an InstallmentOption from its total. The per-installment amount is
+ * the total split evenly in minor units; remainder cents go on the first
+ * installment, so `totalMoney` is always exactly what the buyer pays.
+ * Pass `installment` when a PSP quotes its own (rounded) installment amount.
+ */
+export function buildInstallmentOption(
+  installments: number,
+  total: Money,
+  details: Pick<InstallmentOption, 'interestFree' | 'interestRate' | 'recommended'>,
+  installment?: Money
+): InstallmentOption {
+  const installmentMoney = installment || allocate(total, installments)[installments - 1];
+  return {
+    installments,
+    installmentAmount: toMajorUnits(installmentMoney),
+    totalAmount: toMajorUnits(total),
+    installmentMoney,
+    totalMoney: total,
+    ...details,
+  };
+}
+
+/**
+ * Compute installment plans locally (compound monthly interest after the
+ * interest-free installments, respecting the minimum installment amount).
+ * Totals are rounded once, in minor units.
+ */
+export function calculateInstallments(amount: Money, rules: InstallmentRules = {}): InstallmentOption[] {
+  const { maxInstallments, interestFreeInstallments, monthlyInterestRate, minInstallmentAmount } = {
+    ...DEFAULT_INSTALLMENT_RULES,
+    ...rules,
+  };
+  const rate = monthlyInterestRate / 100;
+  const minInstallment = fromMajorUnits(minInstallmentAmount, amount.currency).amount;
+  const options: InstallmentOption[] = [];
+
+  for (let i = 1; i <= maxInstallments; i++) {
+    const interestFree = i <= interestFreeInstallments || rate === 0;
+    const total: Money = {
+      amount: interestFree ? amount.amount : Math.round(amount.amount * Math.pow(1 + rate, i)),
+      currency: amount.currency,
+    };
+
+    // The first installment is always offered, even below the minimum
+    if (i === 1 || Math.floor(total.amount / i) >= minInstallment) {
+      options.push(buildInstallmentOption(i, total, {
+        interestFree,
+        interestRate: interestFree ? 0 : monthlyInterestRate,
+        recommended: i === 1,
+      }));
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Get installment plans from the server, falling back to local rules when
+ * the endpoint is unavailable (or no tenant is configured).
+ */
+export async function getInstallmentPlans(
+  source: InstallmentSource | null,
+  amount: Money,
+  bin: string,
+  rules?: InstallmentRules
+): Promise<InstallmentOption[]> {
+  if (source?.tenantId) {
+    try {
+      const options = await fetchInstallmentPlans(source, amount, bin);
+      if (options.length > 0) {
+        return rules?.maxInstallments
+          ? options.filter(o => o.installments <= rules.maxInstallments!)
+          : options;
+      }
+    } catch {
+      // Endpoint unavailable — fall through to local rules
+    }
+  }
+  return calculateInstallments(amount, rules);
+}
+
+/**
+ * Clear cached installment plans.
+ */
+export function clearInstallmentsCache(): void {
+  plansCache.clear();
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { toMoney, fromMajorUnits, toMajorUnits, isMoney, equalsMoney, allocate } from './money';
+import { KairosPaymentError } from './errors';
+import { ErrorCode } from './errorCodes';
+
+describe('fromMajorUnits / toMajorUnits', () => {
+  it('converts with the currency exponent', () => {
+    expect(fromMajorUnits(10.5)).toEqual({ amount: 1050, currency: 'BRL' });
+    expect(fromMajorUnits(1500, 'CLP')).toEqual({ amount: 1500, currency: 'CLP' });
+    expect(toMajorUnits({ amount: 1050, currency: 'BRL' })).toBe(10.5);
+    expect(toMajorUnits({ amount: 1500, currency: 'CLP' })).toBe(1500);
+  });
+
+  it('rounds floating point noise to the nearest minor unit', () => {
+    expect(fromMajorUnits(0.1 + 0.2).amount).toBe(30);
+    expect(fromMajorUnits(19.99).amount).toBe(1999);
+  });
+});
+
+describe('toMoney', () => {
+  it('reads numbers as major units in the default currency', () => {
+    expect(toMoney(100)).toEqual({ amount: 10000, currency: 'BRL' });
+    expect(toMoney(100, 'ARS')).toEqual({ amount: 10000, currency: 'ARS' });
+  });
+
+  it('returns valid Money as-is', () => {
+    const money = { amount: 1234, currency: 'USD' } as const;
+    expect(toMoney(money)).toBe(money);
+  });
+
+  it('rejects non-integer amounts and unsupported currencies with CONFIGURATION_ERROR', () => {
+    const fractional = () => toMoney({ amount: 10.5, currency: 'BRL' });
+    expect(fractional).toThrow(KairosPaymentError);
+    expect(fractional).toThrow(expect.objectContaining({ code: ErrorCode.CONFIGURATION_ERROR }));
+
+    const currency = () => toMoney({ amount: 100, currency: 'EUR' as any });
+    expect(currency).toThrow(expect.objectContaining({ code: ErrorCode.CONFIGURATION_ERROR, category: 'configuration' }));
+    expect(() => toMoney({ amount: 100, currency: 'constructor' as any })).toThrow(KairosPaymentError);
+    expect(() => toMoney(100, 'toString' as any)).toThrow(KairosPaymentError);
+  });
+
+  it('rejects NaN, infinite and negative amounts with CONFIGURATION_ERROR', () => {
+    const invalid = [
+      NaN, Infinity, -Infinity, -1, '100' as any,
+      { amount: -100, currency: 'BRL' }, { amount: NaN, currency: 'BRL' },
+    ];
+    for (const amount of invalid) {
+      expect(() => toMoney(amount)).toThrow(expect.objectContaining({ code: ErrorCode.CONFIGURATION_ERROR }));
+    }
+    expect(toMoney(0)).toEqual({ amount: 0, currency: 'BRL' });
+  });
+});
+
+describe('isMoney / equalsMoney', () => {
+  it('recognizes Money objects', () => {
+    expect(isMoney({ amount: 1, currency: 'BRL' })).toBe(true);
+    expect(isMoney(1)).toBe(false);
+    expect(isMoney(null)).toBe(false);
+  });
+
+  it('compares amount and currency', () => {
+    expect(equalsMoney({ amount: 1, currency: 'BRL' }, { amount: 1, currency: 'BRL' })).toBe(true);
+    expect(equalsMoney({ amount: 1, currency: 'BRL' }, { amount: 1, currency: 'USD' })).toBe(false);
+  });
+});
+
+describe('allocate', () => {
+  it('splits exactly, with the remainder on the first parts', () => {
+    const parts = allocate({ amount: 10000, currency: 'BRL' }, 3);
+    expect(parts.map(part => part.amount)).toEqual([3334, 3333, 3333]);
+    expect(parts.reduce((sum, part) => sum + part.amount, 0)).toBe(10000);
+    expect(parts.every(part => part.currency === 'BRL')).toBe(true);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Money — integer minor units plus ISO 4217 currency.
+ *
+ * All amount arithmetic in the SDK happens in minor units (centavos, centavos
+ * argentinos, pesos chilenos...) so installment totals never drift by a cent.
+ * Plain numbers are still accepted wherever an amount is configured and are
+ * read as major units in the default currency (BRL), for backwards
+ * compatibility.
+ */
+
+import type { Money, CurrencyCode } from '../types';
+import { KairosPaymentError } from './errors';
+import { ErrorCode } from './errorCodes';
+
+export const DEFAULT_CURRENCY: CurrencyCode = 'BRL';
+
+/** Minor-unit exponent per currency (ISO 4217) */
+export const CURRENCY_DECIMALS: Record<CurrencyCode, number> = {
+  BRL: 2,
+  ARS: 2,
+  MXN: 2,
+  CLP: 0,
+  COP: 2,
+  USD: 2,
+};
+
+export function isMoney(value: unknown): value is Money {
+  return typeof value === 'object' && value !== null
+    && typeof (value as Money).amount === 'number'
+    && typeof (value as Money).currency === 'string';
+}
+
+/** Create Money from a major-unit amount, e.g. fromMajorUnits(10.5, 'BRL') → { amount: 1050, currency: 'BRL' }. */
+export function fromMajorUnits(amount: number, currency: CurrencyCode = DEFAULT_CURRENCY): Money {
+  const factor = Math.pow(10, CURRENCY_DECIMALS[currency] ?? 2);
+  return { amount: Math.round(amount * factor), currency };
+}
+
+/** Major-unit value of Money, e.g. { amount: 1050, currency: 'BRL' } → 10.5. */
+export function toMajorUnits(money: Money): number {
+  return money.amount / Math.pow(10, CURRENCY_DECIMALS[money.currency] ?? 2);
+}
+
+function isSupportedCurrency(currency: string): currency is CurrencyCode {
+  return Object.prototype.hasOwnProperty.call(CURRENCY_DECIMALS, currency);
+}
+
+/**
+ * Normalize a configured amount: Money is validated and returned as-is,
+ * numbers are treated as major units in `defaultCurrency`.
+ *
+ * @throws KairosPaymentError `CONFIGURATION_ERROR` for a negative, non-finite or
+ * non-integer (Money) amount, or an unsupported currency
+ */
+export function toMoney(amount: number | Money, defaultCurrency: CurrencyCode = DEFAULT_CURRENCY): Money {
+  if (isMoney(amount)) {
+    if (!Number.isInteger(amount.amount) || amount.amount < 0) {
+      throw new KairosPaymentError({
+        code: ErrorCode.CONFIGURATION_ERROR,
+        message: `Money amount must be a non-negative integer in minor units, got ${amount.amount}`,
+      });
+    }
+    if (!isSupportedCurrency(amount.currency)) {
+      throw new KairosPaymentError({
+        code: ErrorCode.CONFIGURATION_ERROR,
+        message: `Unsupported currency: ${amount.currency}`,
+      });
+    }
+    return amount;
+  }
+  if (typeof amount !== 'number' || !Number.isFinite(amount) || amount < 0) {
+    throw new KairosPaymentError({
+      code: ErrorCode.CONFIGURATION_ERROR,
+      message: `Amount must be a non-negative number, got ${amount}`,
+    });
+  }
+  if (!isSupportedCurrency(defaultCurrency)) {
+    throw new KairosPaymentError({
+      code: ErrorCode.CONFIGURATION_ERROR,
+      message: `Unsupported currency: ${defaultCurrency}`,
+    });
+  }
+  return fromMajorUnits(amount, defaultCurrency);
+}
+
+export function equalsMoney(a: Money, b: Money): boolean {
+  return a.amount === b.amount && a.currency === b.currency;
+}
+
+/**
+ * Split Money into `parts` installments that add up exactly to the total.
+ * The remainder cents go to the first installments.
+ *
+ * @example allocate({ amount: 10000, currency: 'BRL' }, 3) → 33,34 + 33,33 + 33,33
+ */
+export function allocate(money: Money, parts: number): Money[] {
+  const base = Math.floor(money.amount / parts);
+  const remainder = money.amount - base * parts;
+  return Array.from({ length: parts }, (_, i) => ({
+    amount: base + (i < remainder ? 1 : 0),
+    currency: money.currency,
+  }));
+}
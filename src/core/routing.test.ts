@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { matchRoutingRule } from './routing';
+import type { RoutingRule } from '../types';
+
+const VISA = '4111111111111111';
+const ELO = '6362970000457013';
+const AMEX = '378282246310005';
+
+describe('matchRoutingRule', () => {
+  it('matches by brand, first rule wins', () => {
+    const rules: RoutingRule[] = [
+      { provider: 'PAGSEGURO', brands: ['amex'] },
+      { provider: 'MERCADOPAGO', brands: ['elo', 'amex'] },
+    ];
+
+    expect(matchRoutingRule(rules, { number: AMEX })?.provider).toBe('PAGSEGURO');
+    expect(matchRoutingRule(rules, { number: ELO })?.provider).toBe('MERCADOPAGO');
+    expect(matchRoutingRule(rules, { number: VISA })).toBeNull();
+  });
+
+  it('matches BIN prefixes and ranges', () => {
+    const rules: RoutingRule[] = [{ provider: 'PAGSEGURO', bins: ['506699', ['650031', '650033']] }];
+
+    expect(matchRoutingRule(rules, { number: '6500321234' })?.provider).toBe('PAGSEGURO');
+    expect(matchRoutingRule(rules, { number: '5066991234' })?.provider).toBe('PAGSEGURO');
+    expect(matchRoutingRule(rules, { number: '6500341234' })).toBeNull();
+  });
+
+  it('matches amount bands only in the same currency', () => {
+    const rules: RoutingRule[] = [
+      { provider: 'PAGSEGURO', maxAmount: 500 },
+      { provider: 'MERCADOPAGO', minAmount: { amount: 100000, currency: 'ARS' } },
+    ];
+
+    expect(matchRoutingRule(rules, { number: VISA, amount: { amount: 50000, currency: 'BRL' } })?.provider)
+      .toBe('PAGSEGURO');
+    expect(matchRoutingRule(rules, { number: VISA, amount: { amount: 50001, currency: 'BRL' } })).toBeNull();
+    expect(matchRoutingRule(rules, { number: VISA, amount: { amount: 100000, currency: 'ARS' } })?.provider)
+      .toBe('MERCADOPAGO');
+    expect(matchRoutingRule(rules, { number: VISA, amount: { amount: 100000, currency: 'USD' } })).toBeNull();
+  });
+
+  it('reads plain number limits as BRL', () => {
+    const rules: RoutingRule[] = [{ provider: 'PAGSEGURO', minAmount: 10, maxAmount: 500 }];
+
+    expect(matchRoutingRule(rules, { number: VISA, amount: { amount: 10000, currency: 'BRL' } })?.provider)
+      .toBe('PAGSEGURO');
+    expect(matchRoutingRule(rules, { number: VISA, amount: { amount: 10000, currency: 'USD' } })).toBeNull();
+    expect(matchRoutingRule(rules, { number: VISA, amount: { amount: 10000, currency: 'CLP' } })).toBeNull();
+  });
+
+  it("doesn't match conditions on data that isn't known yet", () => {
+    const rules: RoutingRule[] = [
+      { provider: 'PAGSEGURO', maxAmount: 500 },
+      { provider: 'MERCADOPAGO', minInstallments: 2 },
+    ];
+
+    expect(matchRoutingRule(rules, { number: VISA })).toBeNull();
+    expect(matchRoutingRule(rules, { number: VISA, installments: 3 })?.provider).toBe('MERCADOPAGO');
+    expect(matchRoutingRule(rules, { number: VISA, installments: 1 })).toBeNull();
+  });
+
+  it('matches every card with a rule without conditions', () => {
+    expect(matchRoutingRule([{ provider: 'KAIROS' }], { number: '9999' })?.provider).toBe('KAIROS');
+  });
+
+  it('needs card digits', () => {
+    expect(matchRoutingRule([{ provider: 'KAIROS' }], { number: '' })).toBeNull();
+  });
+
+  it('ignores malformed amount limits', () => {
+    const rules = [{ provider: 'PAGSEGURO', minAmount: { amount: 1.5, currency: 'BRL' } }] as RoutingRule[];
+    expect(matchRoutingRule(rules, { number: VISA, amount: { amount: 100, currency: 'BRL' } })).toBeNull();
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Provider routing — picks the tokenization provider for a card from the
+ * tenant's routing rules (card brand, BIN range, amount band, installments).
+ *
+ * Rules are evaluated in order and the first match wins; a rule without
+ * conditions matches every card. A condition on data that isn't known yet
+ * (the installment count while the customer is still typing the number)
+ * doesn't match, so the final decision is taken again at tokenization.
+ */
+
+import type { RoutingRule, Money } from '../types';
+import { matchBinRange } from '../card/brands';
+import { detectCardBrand } from '../card/validation';
+import { toMoney } from './money';
+
+export interface RoutingContext {
+  /** Card number, or its leading digits (BIN) */
+  number: string;
+
+  amount?: Money;
+
+  installments?: number;
+}
+
+/** First rule matching the card, or null. */
+export function matchRoutingRule(rules: readonly RoutingRule[], context: RoutingContext): RoutingRule | null {
+  const digits = context.number.replace(/\D/g, '');
+  if (!digits) return null;
+
+  return rules.find(rule => matchesRule(rule, digits, context)) || null;
+}
+
+function matchesRule(rule: RoutingRule, digits: string, context: RoutingContext): boolean {
+  if (rule.brands?.length && !rule.brands.includes(detectCardBrand(digits))) {
+    return false;
+  }
+  if (rule.bins?.length && !rule.bins.some(range => matchBinRange(digits, range) > 0)) {
+    return false;
+  }
+  if (rule.minAmount !== undefined && !compareAmount(rule.minAmount, context.amount, (limit, value) => value >= limit)) {
+    return false;
+  }
+  if (rule.maxAmount !== undefined && !compareAmount(rule.maxAmount, context.amount, (limit, value) => value <= limit)) {
+    return false;
+  }
+  if (rule.minInstallments !== undefined && !(context.installments !== undefined && context.installments >= rule.minInstallments)) {
+    return false;
+  }
+  if (rule.maxInstallments !== undefined && !(context.installments !== undefined && context.installments <= rule.maxInstallments)) {
+    return false;
+  }
+  return true;
+}
+
+/** Amount bands only match amounts in the same currency (plain numbers are BRL). */
+function compareAmount(
+  limit: number | Money,
+  amount: Money | undefined,
+  compare: (limit: number, value: number) => boolean
+): boolean {
+  if (!amount) return false;
+
+  let limitMoney: Money;
+  try {
+    limitMoney = toMoney(limit);
+  } catch {
+    // Malformed limit (e.g. from the options endpoint)
+    return false;
+  }
+  return limitMoney.currency === amount.currency && compare(limitMoney.amount, amount.amount);
+}
@@ -1,6 +1,9 @@
 /**
  * Client-side card data encryption using Web Crypto API.
  *
+ * Besides cards, any payload with a schema in payloads.ts (CVV-only, CPF/CNPJ,
+ * billing address) can be encrypted with the same merchant key.
+ *
  * Uses hybrid encryption: RSA-OAEP (key wrapping) + AES-256-GCM (data encryption).
  * The Kairos backend decrypts with the merchant's RSA private key.
  *
@@ -9,11 +12,32 @@
  * Flow:
  * 1. Fetch merchant's RSA public key from Kairos tokenization endpoint
  * 2. Generate random AES-256 key
- * 3. Encrypt card JSON with AES-GCM
+ * 3. Encrypt payload JSON with AES-GCM (schema tag as additional data)
  * 4. Wrap AES key with RSA-OAEP public key
- * 5. Combine as base64 JSON envelope
+ * 5. Combine as base64 JSON envelope, tagged with the format version, key id and schema
+ *
+ * Envelope versions: v1 `{ek, iv, d}`; v2 adds `v` and `kid`; v3 adds the
+ * schema tag `s`, authenticated as AES-GCM additional data.
+ *
+ * Key rotation: the endpoint may return several active keys (old and new
+ * during a rotation window). We encrypt with the primary one and record its
+ * id in the envelope (`kid`) so the backend picks the matching private key.
+ * Keys past their `expiresAt` are dropped from the cache; when the backend
+ * reports an unknown key id (`UNKNOWN_KEY_ID`), callers clear the cache and
+ * re-encrypt once with `excludeKeyId`.
+ *
+ * Keys are only used after their signature verifies against a pinned Kairos
+ * root key (see keyVerification.ts).
  */
 
+import type { PinnedKey, NetworkConfig } from '../types';
+import { ErrorCode } from '../core/errorCodes';
+import { request } from '../core/http';
+import { verifyMerchantKey, base64ToArrayBuffer, KAIROS_ROOT_KEYS } from './keyVerification';
+import type { SignedKeyEntry } from './keyVerification';
+import { PAYLOAD_ENCODERS } from './payloads';
+import type { PayloadSchema, PayloadSchemas } from './payloads';
+
 export interface CardDataToEncrypt {
   number: string;
   holderName: string;
@@ -22,51 +46,163 @@ export interface CardDataToEncrypt {
   cvv: string;
 }
 
-// Cache public keys per merchant (keyed by merchantId)
-const keyCache = new Map<string, { key: CryptoKey; timestamp: number }>();
+export interface EncryptOptions {
+  /** Skip this key id (the backend reported it as unknown) */
+  excludeKeyId?: string;
+
+  /** Root keys merchant keys must be signed by (default: KAIROS_ROOT_KEYS) */
+  pinnedKeys?: readonly PinnedKey[];
+
+  /** Timeout and retries of the key request */
+  network?: NetworkConfig;
+
+  /** Cancels the key request */
+  signal?: AbortSignal;
+}
+
+/** Envelope format version (see the module header for the history) */
+export const ENVELOPE_VERSION = 3;
+
+/** Error code the backend returns when it has no private key for an envelope's `kid` */
+export const UNKNOWN_KEY_ID = ErrorCode.UNKNOWN_KEY_ID;
+
+interface MerchantKey {
+  keyId: string;
+  key: CryptoKey;
+  primary: boolean;
+  expiresAt?: number;
+}
+
+/** Which keys a cache entry holds: the endpoint they came from */
+export interface EncryptionCacheScope {
+  apiUrl?: string;
+  tenantId?: string;
+
+  /** '' for the tenant's default key (no merchantId) */
+  merchantId?: string;
+}
+
+interface KeyCacheEntry {
+  scope: Required<EncryptionCacheScope>;
+  keys: MerchantKey[];
+  timestamp: number;
+}
+
+// Cache public keys per (API, tenant, merchant, pinned root keys): a key
+// verified against one set of roots isn't trusted by a stricter one
+const keyCache = new Map<string, KeyCacheEntry>();
 const CACHE_TTL = 24 * 60 * 60 * 1000; // 24 hours (keys are persisted in DB per merchant)
 
 /**
- * Fetch the RSA public key for a specific merchant from the Kairos tokenization endpoint.
- * Cached per merchant for 24 hours.
+ * Fetch the active RSA public keys for a specific merchant from the Kairos
+ * tokenization endpoint. Cached per tenant, merchant and pinned roots for
+ * 24 hours, or until every cached key has expired.
  */
-async function fetchPublicKey(apiUrl: string, tenantId: string, merchantId?: string): Promise<CryptoKey> {
-  const cacheKey = merchantId || '__default__';
+async function fetchPublicKeys(
+  apiUrl: string,
+  tenantId: string,
+  merchantId: string | undefined,
+  pinnedKeys: readonly PinnedKey[],
+  options: Pick<EncryptOptions, 'network' | 'signal'>
+): Promise<MerchantKey[]> {
+  const scope = { apiUrl, tenantId, merchantId: merchantId || '' };
+  const cacheKey = JSON.stringify([
+    apiUrl,
+    tenantId,
+    scope.merchantId,
+    pinnedKeys.map(root => root.keyId).sort(),
+  ]);
   const now = Date.now();
   const cached = keyCache.get(cacheKey);
-  if (cached && now - cached.timestamp < CACHE_TTL) {
-    return cached.key;
+  if (cached && now - cached.timestamp < CACHE_TTL && getActiveKeys(cached.keys, now).length > 0) {
+    return cached.keys;
   }
 
   const params = merchantId ? `?merchantId=${merchantId}` : '';
-  const res = await fetch(
-    `${apiUrl}/api/v1/tokenization/${tenantId}/encryption-key${params}`
+  const res = await request(
+    `${apiUrl}/api/v1/tokenization/${tenantId}/encryption-key${params}`,
+    { ...options.network, signal: options.signal }
   );
-  if (!res.ok) {
+  if (!res.ok || !res.data) {
     throw new Error(`Failed to fetch encryption key: ${res.status}`);
   }
 
-  const data = await res.json();
-  const publicKeyBase64: string = data.publicKey;
+  // Either { keys: [{ keyId, publicKey, expiresAt, signature, signingKeyId, primary? }] }
+  // or the single-key form { keyId, publicKey, expiresAt, signature, signingKeyId }
+  const data = res.data;
+  const entries: (SignedKeyEntry & { primary?: boolean })[] =
+    Array.isArray(data.keys) && data.keys.length > 0 ? data.keys : [data];
 
-  // Decode base64 -> ArrayBuffer
-  const binaryString = atob(publicKeyBase64);
-  const bytes = new Uint8Array(binaryString.length);
-  for (let i = 0; i < binaryString.length; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
+  // Keys still listed during a rotation window may have expired: skip those,
+  // but any key that fails its signature check rejects the whole response
+  const keys: MerchantKey[] = [];
+  let lastError: unknown;
+  for (const [index, entry] of entries.entries()) {
+    try {
+      await verifyMerchantKey(entry, { tenantId, merchantId }, pinnedKeys, now);
+    } catch (err) {
+      if (entry.expiresAt && Date.parse(entry.expiresAt) <= now) {
+        lastError = err;
+        continue;
+      }
+      throw err;
+    }
+    keys.push({
+      keyId: entry.keyId || '',
+      key: await importPublicKey(entry.publicKey),
+      primary: entry.primary ?? index === 0,
+      expiresAt: Date.parse(entry.expiresAt!),
+    });
   }
+  if (keys.length === 0) {
+    throw lastError;
+  }
+  keyCache.set(cacheKey, { scope, keys, timestamp: now });
+
+  return keys;
+}
 
+/**
+ * Import a base64 SPKI RSA-OAEP public key for wrapping.
+ */
+async function importPublicKey(publicKeyBase64: string): Promise<CryptoKey> {
   // Import as RSA-OAEP public key (SPKI format)
-  const cryptoKey = await crypto.subtle.importKey(
+  return crypto.subtle.importKey(
     'spki',
-    bytes.buffer,
+    base64ToArrayBuffer(publicKeyBase64),
     { name: 'RSA-OAEP', hash: 'SHA-256' },
     false,
     ['wrapKey']
   );
-  keyCache.set(cacheKey, { key: cryptoKey, timestamp: now });
+}
 
-  return cryptoKey;
+function getActiveKeys(keys: MerchantKey[], now: number): MerchantKey[] {
+  return keys.filter(k => !k.expiresAt || k.expiresAt > now);
+}
+
+/**
+ * Pick the key to encrypt with: the primary active key, else any active key.
+ */
+async function selectPublicKey(
+  apiUrl: string,
+  tenantId: string,
+  merchantId: string | undefined,
+  options: EncryptOptions = {}
+): Promise<MerchantKey> {
+  const { excludeKeyId, pinnedKeys = KAIROS_ROOT_KEYS } = options;
+  const keys = await fetchPublicKeys(apiUrl, tenantId, merchantId, pinnedKeys, options);
+  const active = getActiveKeys(keys, Date.now());
+  const candidates = excludeKeyId
+    ? active.filter(k => k.keyId !== excludeKeyId)
+    : active;
+
+  // The backend may still list the rejected key; use it rather than fail
+  const pool = candidates.length > 0 ? candidates : active;
+  const key = pool.find(k => k.primary) || pool[0];
+  if (!key) {
+    throw new Error('No active encryption key available');
+  }
+  return key;
 }
 
 /**
@@ -76,27 +212,52 @@ async function fetchPublicKey(apiUrl: string, tenantId: string, merchantId?: str
  * @param apiUrl Kairos API base URL
  * @param tenantId Tenant identifier
  * @param merchantId Merchant UUID (each merchant has its own RSA key pair)
+ * @param options Key selection (see `EncryptOptions`)
  * @returns Base64-encoded encrypted envelope
+ * @throws KairosPaymentError `UNTRUSTED_ENCRYPTION_KEY` when the merchant key isn't signed by a pinned root key
  */
 export async function encryptCardData(
   cardData: CardDataToEncrypt,
   apiUrl: string,
   tenantId: string,
-  merchantId?: string
+  merchantId?: string,
+  options: EncryptOptions = {}
 ): Promise<string> {
-  const rsaKey = await fetchPublicKey(apiUrl, tenantId, merchantId);
+  return encryptPayload('card', cardData, apiUrl, tenantId, merchantId, options);
+}
 
-  // Compact JSON with short keys to minimize payload
-  const cardJson = JSON.stringify({
-    n: cardData.number,
-    h: cardData.holderName,
-    m: cardData.expirationMonth,
-    y: cardData.expirationYear,
-    c: cardData.cvv,
-  });
+/**
+ * Encrypt a schema-tagged payload (card, CVV-only, CPF/CNPJ, billing address)
+ * with the merchant key.
+ *
+ * @example
+ * ```typescript
+ * const envelope = await encryptPayload('cvv', { cvv: '123' }, apiUrl, tenantId, merchantId);
+ * ```
+ *
+ * @param schema Payload schema tag (see payloads.ts)
+ * @param payload Payload matching the schema
+ * @returns Base64-encoded encrypted envelope
+ * @throws KairosPaymentError `UNTRUSTED_ENCRYPTION_KEY` when the merchant key isn't signed by a pinned root key
+ */
+export async function encryptPayload<S extends PayloadSchema>(
+  schema: S,
+  payload: PayloadSchemas[S],
+  apiUrl: string,
+  tenantId: string,
+  merchantId?: string,
+  options: EncryptOptions = {}
+): Promise<string> {
+  const encode = PAYLOAD_ENCODERS[schema] as (payload: PayloadSchemas[S]) => Record<string, string>;
+  if (!encode) {
+    throw new Error(`Unknown payload schema: ${schema}`);
+  }
 
+  const { keyId, key: rsaKey } = await selectPublicKey(apiUrl, tenantId, merchantId, options);
+
+  // Compact JSON with short keys to minimize payload
   const encoder = new TextEncoder();
-  const plaintext = encoder.encode(cardJson);
+  const plaintext = encoder.encode(JSON.stringify(encode(payload)));
 
   // Generate random AES-256 key
   const aesKey = await crypto.subtle.generateKey(
@@ -108,9 +269,9 @@ export async function encryptCardData(
   // Generate random 12-byte IV for AES-GCM
   const iv = crypto.getRandomValues(new Uint8Array(12));
 
-  // Encrypt card data with AES-GCM
+  // Encrypt payload with AES-GCM; the schema tag is authenticated but not encrypted
   const ciphertext = await crypto.subtle.encrypt(
-    { name: 'AES-GCM', iv, tagLength: 128 },
+    { name: 'AES-GCM', iv, tagLength: 128, additionalData: encoder.encode(schema) },
     aesKey,
     plaintext
   );
@@ -125,6 +286,9 @@ export async function encryptCardData(
 
   // Build envelope JSON and base64 encode
   const envelope = JSON.stringify({
+    v: ENVELOPE_VERSION,                    // envelope format version
+    s: schema,                              // payload schema tag (GCM additional data)
+    kid: keyId || undefined,                // merchant key id (omitted for legacy single-key responses)
     ek: arrayBufferToBase64(wrappedKey),   // encrypted key
     iv: arrayBufferToBase64(iv.buffer),     // initialization vector
     d: arrayBufferToBase64(ciphertext),     // encrypted data (includes GCM auth tag)
@@ -134,11 +298,17 @@ export async function encryptCardData(
 }
 
 /**
- * Check if card encryption is available for a merchant (endpoint reachable).
+ * Check if card encryption is available for a merchant (endpoint reachable
+ * and key signature trusted).
  */
-export async function isEncryptionAvailable(apiUrl: string, tenantId: string, merchantId?: string): Promise<boolean> {
+export async function isEncryptionAvailable(
+  apiUrl: string,
+  tenantId: string,
+  merchantId?: string,
+  options: Pick<EncryptOptions, 'pinnedKeys'> = {}
+): Promise<boolean> {
   try {
-    await fetchPublicKey(apiUrl, tenantId, merchantId);
+    await selectPublicKey(apiUrl, tenantId, merchantId, options);
     return true;
   } catch {
     return false;
@@ -146,16 +316,51 @@ export async function isEncryptionAvailable(apiUrl: string, tenantId: string, me
 }
 
 /**
- * Clear the cached public key for a specific merchant, or all if no merchantId.
+ * Clear cached public keys: every entry matching the scope's fields (a string
+ * is a merchantId), or all when no scope is given.
+ *
+ * @example
+ * ```typescript
+ * clearEncryptionCache({ apiUrl, tenantId, merchantId: '' }); // the tenant's default key
+ * ```
  */
-export function clearEncryptionCache(merchantId?: string): void {
-  if (merchantId) {
-    keyCache.delete(merchantId);
-  } else {
+export function clearEncryptionCache(scope?: string | EncryptionCacheScope): void {
+  if (scope === undefined) {
     keyCache.clear();
+    return;
+  }
+
+  const match: EncryptionCacheScope = typeof scope === 'string' ? { merchantId: scope } : scope;
+  keyCache.forEach((entry, cacheKey) => {
+    const matches = (Object.keys(match) as (keyof EncryptionCacheScope)[])
+      .every(field => match[field] === undefined || match[field] === entry.scope[field]);
+    if (matches) {
+      keyCache.delete(cacheKey);
+    }
+  });
+}
+
+/**
+ * Key id recorded in an encrypted envelope (undefined for v1 envelopes).
+ */
+export function getEnvelopeKeyId(envelope: string): string | undefined {
+  try {
+    return JSON.parse(atob(envelope)).kid || undefined;
+  } catch {
+    return undefined;
   }
 }
 
+/**
+ * Whether an error (thrown by `onSubmit` or returned by the backend) reports
+ * that the envelope was encrypted with a key id the backend doesn't know.
+ */
+export function isUnknownKeyIdError(err: unknown): boolean {
+  if (typeof err !== 'object' || err === null) return false;
+  const { code, error } = err as { code?: unknown; error?: unknown };
+  return code === UNKNOWN_KEY_ID || error === UNKNOWN_KEY_ID;
+}
+
 function arrayBufferToBase64(buffer: ArrayBuffer): string {
   const bytes = new Uint8Array(buffer);
   let binary = '';
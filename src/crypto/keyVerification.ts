@@ -0,0 +1,141 @@
+/**
+ * Authenticity check for merchant encryption keys.
+ *
+ * Every key returned by the `encryption-key` endpoint is signed by a Kairos
+ * root key (ECDSA P-256 / SHA-256). The SDK ships with the root public keys
+ * embedded, so a proxy or CDN that swaps the merchant key for its own can't
+ * produce a valid signature. Integrators can pin a different list through
+ * `KairosConfig.pinnedKeys`.
+ *
+ * Signed message (UTF-8, fields joined by '\n'):
+ *
+ *   kairos-merchant-key:v1
+ *   <tenantId>
+ *   <merchantId, empty for the tenant default>
+ *   <keyId>
+ *   <publicKey, base64 SPKI as returned>
+ *   <expiresAt, ISO 8601 as returned>
+ *
+ * The signature is base64 IEEE P1363 (r || s), the format WebCrypto produces.
+ */
+
+import type { PinnedKey } from '../types';
+import { KairosPaymentError } from '../core/errors';
+import { ErrorCode } from '../core/errorCodes';
+
+/** Kairos root keys that sign merchant encryption keys */
+export const KAIROS_ROOT_KEYS: readonly PinnedKey[] = [
+  {
+    keyId: 'kairos-root-2026',
+    publicKey: 'MFkwEwYHKoZIzj0CAQYIKoZIzj0DAQcDQgAEkm3mUbMQ3wPTyXTf6ndB4i2dQFPkNpjgM27Ygg5vBzi2S/B2AunnXOpkgnWzduGHISL6vtWa+Jk1JD9XHnz4/w==',
+  },
+];
+
+/** PaymentError code for unsigned, forged or expired merchant keys */
+export const UNTRUSTED_KEY_ERROR = ErrorCode.UNTRUSTED_ENCRYPTION_KEY;
+
+/** A merchant key entry as returned by the `encryption-key` endpoint */
+export interface SignedKeyEntry {
+  keyId?: string;
+  publicKey: string;
+  expiresAt?: string;
+  signature?: string;
+  /** Id of the root key that produced `signature` */
+  signingKeyId?: string;
+}
+
+export interface KeyContext {
+  tenantId: string;
+  merchantId?: string;
+}
+
+const SIGNED_MESSAGE_PREFIX = 'kairos-merchant-key:v1';
+
+// Imported root keys, keyed by base64 SPKI
+const rootKeyCache = new Map<string, CryptoKey>();
+
+/**
+ * Verify a merchant key entry against the pinned root keys.
+ * Throws a KairosPaymentError (`UNTRUSTED_ENCRYPTION_KEY`) when the entry is
+ * unsigned, signed by an unknown root key, tampered with or expired.
+ */
+export async function verifyMerchantKey(
+  entry: SignedKeyEntry,
+  context: KeyContext,
+  pinnedKeys: readonly PinnedKey[] = KAIROS_ROOT_KEYS,
+  now: number = Date.now()
+): Promise<void> {
+  if (!entry.signature || !entry.expiresAt) {
+    throw untrusted('Encryption key is not signed');
+  }
+
+  const expiresAt = Date.parse(entry.expiresAt);
+  if (Number.isNaN(expiresAt) || expiresAt <= now) {
+    throw untrusted('Encryption key has expired');
+  }
+
+  const candidates = entry.signingKeyId
+    ? pinnedKeys.filter(k => k.keyId === entry.signingKeyId)
+    : pinnedKeys;
+  if (candidates.length === 0) {
+    throw untrusted(`Encryption key is signed by an unknown root key: ${entry.signingKeyId}`);
+  }
+
+  const message = new TextEncoder().encode([
+    SIGNED_MESSAGE_PREFIX,
+    context.tenantId,
+    context.merchantId || '',
+    entry.keyId || '',
+    entry.publicKey,
+    entry.expiresAt,
+  ].join('\n'));
+
+  let signature: ArrayBuffer;
+  try {
+    signature = base64ToArrayBuffer(entry.signature);
+  } catch {
+    throw untrusted('Encryption key signature is malformed');
+  }
+
+  for (const pinned of candidates) {
+    const rootKey = await importRootKey(pinned.publicKey);
+    const valid = await crypto.subtle.verify(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      rootKey,
+      signature,
+      message
+    );
+    if (valid) return;
+  }
+
+  throw untrusted('Encryption key signature is invalid');
+}
+
+async function importRootKey(publicKeyBase64: string): Promise<CryptoKey> {
+  let key = rootKeyCache.get(publicKeyBase64);
+  if (!key) {
+    key = await crypto.subtle.importKey(
+      'spki',
+      base64ToArrayBuffer(publicKeyBase64),
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      false,
+      ['verify']
+    );
+    rootKeyCache.set(publicKeyBase64, key);
+  }
+  return key;
+}
+
+function untrusted(message: string): KairosPaymentError {
+  return new KairosPaymentError({ code: UNTRUSTED_KEY_ERROR, message });
+}
+
+export function base64ToArrayBuffer(base64: string): ArrayBuffer {
+  const binaryString = atob(base64);
+  const buffer = new ArrayBuffer(binaryString.length);
+  const bytes = new Uint8Array(buffer);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return buffer;
+}
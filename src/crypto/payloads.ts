@@ -0,0 +1,76 @@
+/**
+ * Payload schemas for `encryptPayload`.
+ *
+ * Each schema maps a typed payload to the compact JSON that goes inside the
+ * envelope (short keys to minimize size). The schema tag travels in the
+ * envelope (`s`) and is bound to the ciphertext as AES-GCM additional data,
+ * so the backend can tell payload types apart and a tag can't be swapped.
+ */
+
+import type { CardDataToEncrypt } from './encryption';
+
+/** Cardholder document (CPF for individuals, CNPJ for companies) */
+export interface DocumentPayload {
+  type: 'CPF' | 'CNPJ';
+  /** Document number (formatting characters are ignored) */
+  number: string;
+}
+
+export interface BillingAddressPayload {
+  street: string;
+  number: string;
+  complement?: string;
+  neighborhood?: string;
+  city: string;
+  /** State / province code (e.g. 'SP') */
+  state: string;
+  /** Postal code (CEP); spaces and dashes are ignored */
+  zipCode: string;
+  /** ISO 3166-1 alpha-2 country code (default: 'BR') */
+  country?: string;
+}
+
+/** Security code only, for recollecting the CVV of a saved card */
+export interface CvvPayload {
+  cvv: string;
+}
+
+/** Payload type per schema tag */
+export interface PayloadSchemas {
+  card: CardDataToEncrypt;
+  cvv: CvvPayload;
+  document: DocumentPayload;
+  billingAddress: BillingAddressPayload;
+}
+
+export type PayloadSchema = keyof PayloadSchemas;
+
+const digits = (value: string) => value.replace(/\D/g, '');
+
+/** Compact wire format per schema */
+export const PAYLOAD_ENCODERS: { [S in PayloadSchema]: (payload: PayloadSchemas[S]) => Record<string, string> } = {
+  card: card => ({
+    n: card.number,
+    h: card.holderName,
+    m: card.expirationMonth,
+    y: card.expirationYear,
+    c: card.cvv,
+  }),
+  cvv: payload => ({
+    c: digits(payload.cvv),
+  }),
+  document: doc => ({
+    t: doc.type,
+    n: digits(doc.number),
+  }),
+  billingAddress: address => ({
+    st: address.street,
+    nu: address.number,
+    ...(address.complement ? { co: address.complement } : {}),
+    ...(address.neighborhood ? { nb: address.neighborhood } : {}),
+    ci: address.city,
+    sa: address.state,
+    z: address.zipCode.replace(/[\s-]/g, ''),
+    cc: address.country || 'BR',
+  }),
+};
@@ -0,0 +1,114 @@
+/**
+ * Content-Security-Policy and Trusted Types support for everything the SDK
+ * injects into the page.
+ *
+ * - Every `<style>` and `<script>` the SDK creates carries `KairosConfig.cspNonce`.
+ * - With `styleMode: 'external'` no stylesheet is injected at all; the page
+ *   links `dist/kairos-payments.css` itself.
+ * - Components are built with the element builder (elements.ts), never from
+ *   HTML strings; the only Trusted Types sink left is the PSP script URL, which
+ *   goes through the `kairos-payments` policy (limited to the PSP SDK origins).
+ *   Pages enforcing `require-trusted-types-for 'script'` only need to allow
+ *   it: `trusted-types kairos-payments`.
+ */
+
+/** Trusted Types policy name to allow in the page's CSP */
+export const TRUSTED_TYPES_POLICY_NAME = 'kairos-payments';
+
+/** Origins the SDK loads third-party scripts from */
+const SCRIPT_ORIGINS = [
+  'https://sdk.mercadopago.com',
+  'https://www.mercadopago.com',
+  'https://assets.pagseguro.com.br',
+  'https://stc.sandbox.pagseguro.uol.com.br',
+];
+
+export interface DomSecurityOptions {
+  /** Nonce applied to injected `<style>` and `<script>` elements */
+  nonce?: string;
+
+  /** 'inline' injects the SDK stylesheets; 'external' injects none (default: 'inline') */
+  styleMode?: 'inline' | 'external';
+}
+
+interface TrustedTypePolicy {
+  createScriptURL(input: string): unknown;
+}
+
+interface TrustedTypePolicyFactory {
+  createPolicy(name: string, rules: {
+    createScriptURL?: (input: string) => string;
+  }): TrustedTypePolicy;
+}
+
+/** Script loads by URL, shared by every adapter and form on the page */
+const scriptLoads = new Map<string, Promise<void>>();
+
+// undefined: not created yet; null: Trusted Types unsupported
+let policy: TrustedTypePolicy | null | undefined;
+
+function getPolicy(): TrustedTypePolicy | null {
+  if (policy === undefined) {
+    const factory = (window as Window & { trustedTypes?: TrustedTypePolicyFactory }).trustedTypes;
+    policy = factory
+      ? factory.createPolicy(TRUSTED_TYPES_POLICY_NAME, {
+          createScriptURL: input => {
+            if (!SCRIPT_ORIGINS.includes(new URL(input, window.location.href).origin)) {
+              throw new TypeError(`[Kairos] Script URL not allowed: ${input}`);
+            }
+            return input;
+          },
+        })
+      : null;
+  }
+  return policy;
+}
+
+/**
+ * Inject a stylesheet into `<head>` once per page (identified by `id`).
+ * No-op in external style mode.
+ */
+export function injectStylesheet(id: string, css: string, options: DomSecurityOptions = {}): void {
+  if (options.styleMode === 'external') return;
+  if (document.head.querySelector(`style[data-kairos-style="${id}"]`)) return;
+
+  const style = document.createElement('style');
+  style.setAttribute('data-kairos-style', id);
+  if (options.nonce) style.nonce = options.nonce;
+  style.textContent = css;
+  document.head.appendChild(style);
+}
+
+/**
+ * Load a third-party script (PSP SDK) with the page's nonce, once per URL.
+ * Resolves once loaded; rejects with `errorMessage` on failure (a later call
+ * tries again).
+ */
+export function loadScript(
+  src: string,
+  errorMessage: string,
+  options: DomSecurityOptions & { attributes?: Record<string, string> } = {}
+): Promise<void> {
+  const pending = scriptLoads.get(src);
+  if (pending) return pending;
+
+  const load = new Promise<void>((resolve, reject) => {
+    const script = document.createElement('script');
+    const trusted = getPolicy()?.createScriptURL(src);
+    script.src = (trusted ?? src) as string;
+    script.async = true;
+    if (options.nonce) script.nonce = options.nonce;
+    for (const [name, value] of Object.entries(options.attributes || {})) {
+      script.setAttribute(name, value);
+    }
+    script.onload = () => resolve();
+    script.onerror = () => {
+      scriptLoads.delete(src);
+      script.remove();
+      reject(new Error(errorMessage));
+    };
+    document.head.appendChild(script);
+  });
+  scriptLoads.set(src, load);
+  return load;
+}
@@ -0,0 +1,81 @@
+// @vitest-environment jsdom
+import { describe, it, expect } from 'vitest';
+import { h, svg, append, uniqueId } from './elements';
+
+const HOSTILE = '<img src=x onerror="alert(1)"><script>alert(2)</script>';
+
+describe('h', () => {
+  it('renders string and number children as text nodes', () => {
+    const label = h('label', { for: 'cardNumber' }, [HOSTILE, 42]);
+
+    expect(Array.from(label.childNodes).every(node => node.nodeType === Node.TEXT_NODE)).toBe(true);
+    expect(label.textContent).toBe(`${HOSTILE}42`);
+    expect(label.querySelector('img, script')).toBeNull();
+  });
+
+  it('sets attribute values verbatim', () => {
+    const input = h('input', { placeholder: HOSTILE, 'data-value': '"><script>alert(1)</script>' });
+
+    expect(input.getAttribute('placeholder')).toBe(HOSTILE);
+    expect(input.getAttribute('data-value')).toBe('"><script>alert(1)</script>');
+    expect(input.attributes).toHaveLength(2);
+  });
+
+  it('sets empty attributes for true and skips false, null and undefined', () => {
+    const input = h('input', { required: true, disabled: false, name: null, id: undefined });
+
+    expect(input.getAttribute('required')).toBe('');
+    expect(input.attributes).toHaveLength(1);
+  });
+
+  it('refuses event handler attributes', () => {
+    expect(() => h('img', { onerror: 'alert(1)' })).toThrow(TypeError);
+    expect(() => h('button', { OnClick: 'alert(1)' })).toThrow('event handler attribute "OnClick"');
+  });
+
+  it('refuses javascript: URLs, however they are spelled', () => {
+    expect(() => h('a', { href: 'javascript:alert(1)' })).toThrow('javascript: URL on "href"');
+    expect(() => h('form', { action: ' JavaScript:alert(1)' })).toThrow(TypeError);
+    expect(() => h('img', { src: 'java\tscript:alert(1)' })).toThrow(TypeError);
+    expect(() => h('button', { formaction: '\u0000javascript:alert(1)' })).toThrow(TypeError);
+  });
+
+  it('allows other URLs', () => {
+    expect(h('a', { href: 'https://kairoshub.tech/docs' }).getAttribute('href')).toBe('https://kairoshub.tech/docs');
+    expect(h('img', { src: 'data:image/png;base64,AAAA' }).getAttribute('src')).toBe('data:image/png;base64,AAAA');
+  });
+});
+
+describe('svg', () => {
+  it('creates SVG elements with text children', () => {
+    const text = svg('text', { x: 0, y: 10 }, [HOSTILE]);
+
+    expect(text.namespaceURI).toBe('http://www.w3.org/2000/svg');
+    expect(text.textContent).toBe(HOSTILE);
+    expect(text.childElementCount).toBe(0);
+  });
+
+  it('refuses event handler attributes and javascript: URLs', () => {
+    expect(() => svg('svg', { onload: 'alert(1)' })).toThrow(TypeError);
+    expect(() => svg('a', { href: 'javascript:alert(1)' })).toThrow(TypeError);
+    expect(() => svg('use', { 'xlink:href': 'javascript:alert(1)' })).toThrow(TypeError);
+  });
+});
+
+describe('append', () => {
+  it('skips empty children and keeps node children', () => {
+    const parent = h('div');
+    append(parent, [null, undefined, false, h('span'), HOSTILE]);
+
+    expect(parent.childNodes).toHaveLength(2);
+    expect(parent.firstChild?.nodeName).toBe('SPAN');
+    expect(parent.lastChild?.nodeType).toBe(Node.TEXT_NODE);
+  });
+});
+
+describe('uniqueId', () => {
+  it('never repeats an id', () => {
+    expect(uniqueId('kairos-form')).not.toBe(uniqueId('kairos-form'));
+    expect(uniqueId('kairos-form')).toMatch(/^kairos-form-\d+$/);
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Minimal element builder for the SDK components.
+ *
+ * Components build their DOM with `h()` / `svg()` instead of HTML templates:
+ * strings only ever become text nodes or attribute values, so labels,
+ * amounts or any other config value can't be parsed as markup, and no
+ * Trusted Types HTML sink is involved. Event handler attributes and
+ * `javascript:` URLs are refused.
+ *
+ * @example
+ * ```typescript
+ * const label = h('label', { for: 'cardNumber' }, [messages.cardNumberLabel]);
+ * ```
+ */
+
+export type Child = Node | string | number | null | undefined | false;
+
+export type Attributes = Record<string, string | number | boolean | null | undefined>;
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+let idCounter = 0;
+
+/**
+ * Page-unique element id, for label `for`s and SVG references in components
+ * that can be rendered several times on one page.
+ */
+export function uniqueId(prefix: string): string {
+  return `${prefix}-${++idCounter}`;
+}
+
+/** Attributes the browser navigates to or loads */
+const URL_ATTRIBUTES = new Set(['href', 'xlink:href', 'src', 'action', 'formaction']);
+
+/** Create an HTML element. `true` sets an empty attribute; false/null/undefined skip it. */
+export function h<K extends keyof HTMLElementTagNameMap>(
+  tag: K,
+  attributes: Attributes = {},
+  children: Child[] = []
+): HTMLElementTagNameMap[K] {
+  const element = document.createElement(tag);
+  setAttributes(element, attributes);
+  append(element, children);
+  return element;
+}
+
+/** Create an SVG element (for the SDK's static icons). */
+export function svg<K extends keyof SVGElementTagNameMap>(
+  tag: K,
+  attributes: Attributes = {},
+  children: Child[] = []
+): SVGElementTagNameMap[K] {
+  const element = document.createElementNS(SVG_NS, tag);
+  setAttributes(element, attributes);
+  append(element, children);
+  return element;
+}
+
+/** Append children, turning strings and numbers into text nodes. */
+export function append(parent: Node, children: Child[]): void {
+  for (const child of children) {
+    if (child === null || child === undefined || child === false) continue;
+    parent.appendChild(typeof child === 'string' || typeof child === 'number'
+      ? document.createTextNode(String(child))
+      : child);
+  }
+}
+
+function setAttributes(element: Element, attributes: Attributes): void {
+  for (const [name, value] of Object.entries(attributes)) {
+    // Event handlers are attached with addEventListener, never as attributes
+    if (/^on/i.test(name)) {
+      throw new TypeError(`[Kairos] Refusing to set event handler attribute "${name}"`);
+    }
+    if (value === false || value === null || value === undefined) continue;
+    // Browsers ignore whitespace and control characters around the scheme
+    if (URL_ATTRIBUTES.has(name.toLowerCase())
+      && /^javascript:/i.test(String(value).replace(/[\u0000-\u0020]/g, ''))) {
+      throw new TypeError(`[Kairos] Refusing to set javascript: URL on "${name}"`);
+    }
+    element.setAttribute(name, value === true ? '' : String(value));
+  }
+}
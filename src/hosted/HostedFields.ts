@@ -0,0 +1,291 @@
+/**
+ * HostedFields — parent-page side of the hosted fields mode.
+ *
+ * Mounts one Kairos-origin iframe per sensitive field (card number, expiry,
+ * CVV) and talks to them over the protocol in protocol.ts. The parent only
+ * learns each field's validity, the brand and the BIN; `tokenize()` resolves
+ * with the encrypted envelope produced inside the card number frame.
+ */
+
+import type { CardBrand } from '../card/brands';
+import type { CardValidationCode } from '../card/validation';
+import { KairosPaymentError } from '../core/errors';
+import { ErrorCode } from '../core/errorCodes';
+import {
+  HOSTED_FIELDS,
+  envelope,
+  isProtocolMessage,
+} from './protocol';
+import type {
+  HostedField,
+  HostedFieldStyles,
+  FrameToParentMessage,
+  ParentToFrameMessage,
+} from './protocol';
+
+export interface HostedFieldState {
+  isEmpty: boolean;
+  isValid: boolean;
+  error?: CardValidationCode;
+  /** The field lost focus at least once */
+  touched: boolean;
+  focused: boolean;
+}
+
+export interface HostedFieldOptions {
+  placeholder: string;
+  ariaLabel: string;
+}
+
+export interface HostedFieldsConfig {
+  /** URL of the hosted field page (Kairos origin) */
+  url: string;
+
+  /** Element each field's iframe is mounted into */
+  containers: Record<HostedField, HTMLElement>;
+
+  /** Placeholder and accessible label per field */
+  fields: Record<HostedField, HostedFieldOptions>;
+
+  tenantId: string;
+  merchantId: string;
+  locale: string;
+
+  /** Text styles applied inside the frames */
+  styles?: HostedFieldStyles;
+
+  /** Called whenever a field's state, the brand or the BIN changes */
+  onChange?: (field: HostedField) => void;
+
+  /** Time to wait for the frames to load (default: 15000ms) */
+  readyTimeoutMs?: number;
+
+  /** Time to wait for an encrypted envelope (default: 30000ms) */
+  tokenizeTimeoutMs?: number;
+}
+
+export interface HostedTokenizeResult {
+  encryptedData: string;
+  brand?: CardBrand;
+  bin: string;
+  lastFourDigits: string;
+}
+
+export class HostedFields {
+  private readonly origin: string;
+  private readonly session: string;
+  private frames = new Map<HostedField, HTMLIFrameElement>();
+  private states = {} as Record<HostedField, HostedFieldState>;
+  private brand?: CardBrand;
+  private bin = '';
+  private requestCounter = 0;
+  private pending = new Map<string, {
+    resolve: (result: HostedTokenizeResult) => void;
+    reject: (error: KairosPaymentError) => void;
+    timer: ReturnType<typeof setTimeout>;
+  }>();
+  private readyWaiters = new Map<HostedField, () => void>();
+  private readonly listener = (event: MessageEvent) => this.handleMessage(event);
+
+  constructor(private readonly config: HostedFieldsConfig) {
+    this.origin = new URL(config.url).origin;
+    this.session = randomId();
+    for (const field of HOSTED_FIELDS) {
+      this.states[field] = { isEmpty: true, isValid: false, touched: false, focused: false };
+    }
+  }
+
+  /**
+   * Create the iframes and resolve once every frame reported `ready` and
+   * received its `init` message. Rejects with INIT_ERROR on timeout.
+   */
+  async mount(): Promise<void> {
+    window.addEventListener('message', this.listener);
+
+    const ready = HOSTED_FIELDS.map(field => new Promise<void>(resolve => {
+      this.readyWaiters.set(field, resolve);
+    }));
+
+    for (const field of HOSTED_FIELDS) {
+      const src = new URL(this.config.url);
+      src.searchParams.set('field', field);
+      src.searchParams.set('origin', window.location.origin);
+      src.searchParams.set('session', this.session);
+
+      const iframe = document.createElement('iframe');
+      iframe.src = src.toString();
+      iframe.title = this.config.fields[field].ariaLabel;
+      iframe.setAttribute('sandbox', 'allow-scripts allow-same-origin');
+      iframe.setAttribute('scrolling', 'no');
+      iframe.setAttribute('data-kairos-enc-frame', field);
+      iframe.style.border = 'none';
+      iframe.style.width = '100%';
+      iframe.style.height = '100%';
+      iframe.style.display = 'block';
+      this.frames.set(field, iframe);
+      this.config.containers[field].appendChild(iframe);
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new KairosPaymentError({
+        code: ErrorCode.INIT_ERROR,
+        message: 'Hosted fields did not load',
+      })), this.config.readyTimeoutMs ?? 15000);
+    });
+
+    try {
+      await Promise.race([Promise.all(ready), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Ask the card number frame to collect the other fields, encrypt the card
+   * and return the envelope. Rejects with a KairosPaymentError.
+   */
+  tokenize(holderName: string, options: { excludeKeyId?: string } = {}): Promise<HostedTokenizeResult> {
+    const requestId = `${this.session}-${++this.requestCounter}`;
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(requestId);
+        reject(new KairosPaymentError({
+          code: ErrorCode.ENCRYPTION_ERROR,
+          message: 'Hosted fields did not respond',
+        }));
+      }, this.config.tokenizeTimeoutMs ?? 30000);
+
+      this.pending.set(requestId, { resolve, reject, timer });
+      this.post('cardNumber', { type: 'tokenize', requestId, holderName, excludeKeyId: options.excludeKeyId });
+    });
+  }
+
+  focus(field: HostedField): void {
+    this.post(field, { type: 'focus' });
+  }
+
+  getState(field: HostedField): HostedFieldState {
+    return { ...this.states[field] };
+  }
+
+  getBrand(): CardBrand | undefined {
+    return this.brand;
+  }
+
+  getBin(): string {
+    return this.bin;
+  }
+
+  /** Mark every field as visited (on submit attempt). */
+  touchAll(): void {
+    for (const field of HOSTED_FIELDS) {
+      this.states[field].touched = true;
+    }
+  }
+
+  destroy(): void {
+    window.removeEventListener('message', this.listener);
+    for (const { reject, timer } of this.pending.values()) {
+      clearTimeout(timer);
+      reject(new KairosPaymentError({ code: ErrorCode.ENCRYPTION_ERROR, message: 'Hosted fields were unmounted' }));
+    }
+    this.pending.clear();
+    for (const iframe of this.frames.values()) {
+      iframe.remove();
+    }
+    this.frames.clear();
+  }
+
+  private post(field: HostedField, message: ParentToFrameMessage): void {
+    this.frames.get(field)?.contentWindow?.postMessage(envelope(message), this.origin);
+  }
+
+  private handleMessage(event: MessageEvent): void {
+    // Only our own frames, served from the hosted fields origin
+    if (event.origin !== this.origin) return;
+    const field = this.findFrameField(event.source);
+    if (!field || !isProtocolMessage<FrameToParentMessage>(event.data)) return;
+
+    const message = event.data;
+    switch (message.type) {
+      case 'ready':
+        this.post(field, {
+          type: 'init',
+          field,
+          locale: this.config.locale,
+          placeholder: this.config.fields[field].placeholder,
+          ariaLabel: this.config.fields[field].ariaLabel,
+          styles: this.config.styles || {},
+          tenantId: this.config.tenantId,
+          merchantId: this.config.merchantId,
+        });
+        this.readyWaiters.get(field)?.();
+        this.readyWaiters.delete(field);
+        break;
+
+      case 'change':
+        this.states[field] = {
+          ...this.states[field],
+          isEmpty: message.isEmpty,
+          isValid: message.isValid,
+          error: message.error,
+        };
+        if (field === 'cardNumber') {
+          this.brand = message.brand;
+          this.bin = message.bin || '';
+        }
+        this.config.onChange?.(field);
+        break;
+
+      case 'focus':
+        this.states[field].focused = true;
+        this.config.onChange?.(field);
+        break;
+
+      case 'blur':
+        this.states[field].focused = false;
+        this.states[field].touched = true;
+        this.config.onChange?.(field);
+        break;
+
+      case 'tokenized':
+      case 'tokenizeError': {
+        if (field !== 'cardNumber') return;
+        const request = this.pending.get(message.requestId);
+        if (!request) return;
+        this.pending.delete(message.requestId);
+        clearTimeout(request.timer);
+
+        if (message.type === 'tokenized') {
+          request.resolve({
+            encryptedData: message.encryptedData,
+            brand: message.brand,
+            bin: message.bin,
+            lastFourDigits: message.lastFourDigits,
+          });
+        } else {
+          request.reject(new KairosPaymentError({
+            code: message.code,
+            message: message.message,
+            field: message.field,
+          }));
+        }
+        break;
+      }
+    }
+  }
+
+  private findFrameField(source: MessageEventSource | null): HostedField | null {
+    for (const [field, iframe] of this.frames) {
+      if (iframe.contentWindow === source) return field;
+    }
+    return null;
+  }
+}
+
+function randomId(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,294 @@
+/**
+ * Hosted field page — runs inside a Kairos-origin iframe.
+ *
+ * Built as a standalone bundle (dist/kairos-hosted-field.min.js) and loaded
+ * by the field page served from the hosted fields origin:
+ *
+ * ```html
+ * <body>
+ *   <script src="kairos-hosted-field.min.js"></script>
+ *   <script>KairosHostedField.mountHostedField({ apiUrl: 'https://api.kairoshub.tech' });</script>
+ * </body>
+ * ```
+ *
+ * Renders a single input (card number, expiry or CVV) and reports its
+ * validity to the parent. The card number frame also collects the expiry and
+ * CVV from its sibling frames and encrypts the card. See protocol.ts.
+ */
+
+import type { PinnedKey } from '../types';
+import type { CardBrandRule } from '../card/brands';
+import { getCardBrandRule } from '../card/brands';
+import type { CardValidationCode } from '../card/validation';
+import { validateCardNumber, validateExpiry, validateCardData, getFirstCardError, normalizeCardData } from '../card/validation';
+import { maskCardNumberInput, syncCvvInput, applyMask, formatExpiry, getCvvLengthForBrand } from '../card/masking';
+import { extractBin } from '../card/formState';
+import { encryptCardData, clearEncryptionCache } from '../crypto/encryption';
+import { KAIROS_ROOT_KEYS } from '../crypto/keyVerification';
+import { getMessages, getValidationMessage } from '../i18n/messages';
+import { ErrorCode } from '../core/errorCodes';
+import { HOSTED_FIELDS, envelope, isProtocolMessage, getChannelName } from './protocol';
+import type {
+  HostedField,
+  HostedFieldStyles,
+  ParentToFrameMessage,
+  FrameToParentMessage,
+  FrameToFrameMessage,
+} from './protocol';
+
+export interface HostedFieldPageOptions {
+  /** Kairos API base URL used to fetch the merchant encryption key */
+  apiUrl: string;
+
+  /** Root keys merchant keys must be signed by (default: KAIROS_ROOT_KEYS) */
+  pinnedKeys?: readonly PinnedKey[];
+
+  /** Time to wait for the expiry/CVV frames when encrypting (default: 3000ms) */
+  collectTimeoutMs?: number;
+
+  /** Log to the console why the field refused to mount (default: false) */
+  debug?: boolean;
+}
+
+const INPUT_ATTRIBUTES: Record<HostedField, { autocomplete: string; maxLength: number }> = {
+  cardNumber: { autocomplete: 'cc-number', maxLength: 23 },
+  expiry: { autocomplete: 'cc-exp', maxLength: 5 },
+  cvv: { autocomplete: 'cc-csc', maxLength: 3 },
+};
+
+const STYLE_PROPERTIES: (keyof HostedFieldStyles)[] = ['color', 'fontFamily', 'fontSize', 'letterSpacing'];
+
+/**
+ * Mount the hosted field described by the frame URL
+ * (`?field=cardNumber&origin=https://shop.example&session=...`).
+ */
+export function mountHostedField(options: HostedFieldPageOptions): void {
+  const params = new URLSearchParams(window.location.search);
+  const field = params.get('field') as HostedField;
+  const parentOrigin = params.get('origin') || '';
+  const session = params.get('session') || '';
+
+  if (!HOSTED_FIELDS.includes(field) || !session || window.parent === window) {
+    return;
+  }
+
+  // The parent origin comes from the URL: refuse to run when the page that
+  // actually embeds us is somewhere else
+  if (getEmbedderOrigin() !== parentOrigin) {
+    if (options.debug) {
+      console.log('[Kairos]', 'Hosted field embedded by an unexpected origin');
+    }
+    return;
+  }
+
+  const channel = new BroadcastChannel(getChannelName(session));
+  const input = document.createElement('input');
+  input.type = 'text';
+  input.inputMode = 'numeric';
+  input.setAttribute('autocomplete', INPUT_ATTRIBUTES[field].autocomplete);
+  input.maxLength = INPUT_ATTRIBUTES[field].maxLength;
+  input.style.cssText = 'box-sizing:border-box;width:100%;height:100%;margin:0;padding:0 12px;border:0;outline:none;background:transparent;font:inherit;color:inherit;';
+  document.body.style.margin = '0';
+  document.body.appendChild(input);
+
+  let tenantId = '';
+  let merchantId = '';
+  let locale = '';
+  let brand: CardBrandRule | null = null;
+
+  const postToParent = (message: FrameToParentMessage) => {
+    window.parent.postMessage(envelope(message), parentOrigin);
+  };
+
+  const validate = (): CardValidationCode | null => {
+    switch (field) {
+      case 'cardNumber':
+        return validateCardNumber(input.value);
+      case 'expiry':
+        return validateExpiry(input.value);
+      case 'cvv':
+        return /^\d+$/.test(input.value) && input.value.length === getCvvLengthForBrand(brand)
+          ? null
+          : 'INVALID_CVV';
+    }
+  };
+
+  const reportChange = () => {
+    const error = validate();
+    postToParent({
+      type: 'change',
+      field,
+      isEmpty: input.value.length === 0,
+      isValid: !error,
+      error: error || undefined,
+      ...(field === 'cardNumber' ? { brand: brand?.brand, bin: extractBin(input.value) || '' } : {}),
+    });
+  };
+
+  input.addEventListener('input', () => {
+    if (field === 'cardNumber') {
+      const previous = brand?.brand;
+      brand = maskCardNumberInput(input);
+      if (brand?.brand !== previous) {
+        channel.postMessage(envelope<FrameToFrameMessage>({ type: 'brand', brand: brand?.brand }));
+      }
+    } else if (field === 'expiry') {
+      applyMask(input, formatExpiry);
+    } else {
+      syncCvvInput(input, brand);
+    }
+    reportChange();
+  });
+  input.addEventListener('focus', () => postToParent({ type: 'focus', field }));
+  input.addEventListener('blur', () => postToParent({ type: 'blur', field }));
+
+  // Sibling frames (same Kairos origin only)
+  const collectors = new Map<string, Partial<Record<HostedField, string>>>();
+  channel.addEventListener('message', (event: MessageEvent) => {
+    if (!isProtocolMessage<FrameToFrameMessage>(event.data)) return;
+    const message = event.data;
+
+    if (message.type === 'brand' && field === 'cvv') {
+      brand = message.brand ? getCardBrandRule(message.brand) : null;
+      syncCvvInput(input, brand);
+      if (input.value) reportChange();
+    } else if (message.type === 'collect' && field !== 'cardNumber') {
+      channel.postMessage(envelope<FrameToFrameMessage>({
+        type: 'value',
+        requestId: message.requestId,
+        field,
+        value: input.value,
+      }));
+    } else if (message.type === 'value' && field === 'cardNumber') {
+      const values = collectors.get(message.requestId);
+      if (values) values[message.field] = message.value;
+    }
+  });
+
+  const collect = (requestId: string): Promise<{ expiry: string; cvv: string }> => {
+    const values: Partial<Record<HostedField, string>> = {};
+    collectors.set(requestId, values);
+    channel.postMessage(envelope<FrameToFrameMessage>({ type: 'collect', requestId }));
+
+    const deadline = Date.now() + (options.collectTimeoutMs ?? 3000);
+    return new Promise((resolve, reject) => {
+      const check = () => {
+        if (values.expiry !== undefined && values.cvv !== undefined) {
+          collectors.delete(requestId);
+          resolve({ expiry: values.expiry, cvv: values.cvv });
+        } else if (Date.now() > deadline) {
+          collectors.delete(requestId);
+          reject(new Error('Hosted expiry/CVV fields did not respond'));
+        } else {
+          setTimeout(check, 20);
+        }
+      };
+      check();
+    });
+  };
+
+  const tokenize = async (requestId: string, holderName: string, excludeKeyId?: string) => {
+    try {
+      const { expiry, cvv } = await collect(requestId);
+      const [mm, yy] = expiry.split('/');
+      const card = {
+        number: input.value,
+        holderName,
+        expirationMonth: mm || '',
+        expirationYear: yy || '',
+        cvv,
+      };
+
+      const validationError = getFirstCardError(validateCardData(card));
+      if (validationError) {
+        postToParent({
+          type: 'tokenizeError',
+          requestId,
+          code: ErrorCode.VALIDATION_ERROR,
+          message: getValidationMessage(validationError.code, getMessages(locale)),
+          field: validationError.field,
+        });
+        return;
+      }
+
+      // The backend rejected the key this frame cached: refetch before retrying
+      if (excludeKeyId) {
+        clearEncryptionCache({ apiUrl: options.apiUrl, tenantId, merchantId: merchantId || '' });
+      }
+
+      const normalized = normalizeCardData(card);
+      const encryptedData = await encryptCardData(
+        {
+          number: normalized.number,
+          holderName: normalized.holderName,
+          expirationMonth: normalized.expirationMonth,
+          expirationYear: normalized.expirationYear,
+          cvv: normalized.cvv,
+        },
+        options.apiUrl,
+        tenantId,
+        merchantId || undefined,
+        { excludeKeyId, pinnedKeys: options.pinnedKeys || KAIROS_ROOT_KEYS }
+      );
+
+      postToParent({
+        type: 'tokenized',
+        requestId,
+        encryptedData,
+        brand: brand?.brand,
+        bin: extractBin(normalized.number) || '',
+        lastFourDigits: normalized.number.slice(-4),
+      });
+    } catch (err) {
+      postToParent({
+        type: 'tokenizeError',
+        requestId,
+        code: (err as { code?: string })?.code || ErrorCode.ENCRYPTION_ERROR,
+        message: (err as { message?: string })?.message || 'Failed to encrypt card data',
+      });
+    }
+  };
+
+  window.addEventListener('message', (event: MessageEvent) => {
+    if (event.source !== window.parent || event.origin !== parentOrigin) return;
+    if (!isProtocolMessage<ParentToFrameMessage>(event.data)) return;
+    const message = event.data;
+
+    switch (message.type) {
+      case 'init':
+        tenantId = message.tenantId;
+        merchantId = message.merchantId;
+        locale = message.locale;
+        input.placeholder = message.placeholder;
+        input.setAttribute('aria-label', message.ariaLabel);
+        document.documentElement.lang = locale;
+        for (const property of STYLE_PROPERTIES) {
+          const value = message.styles?.[property];
+          if (typeof value === 'string') input.style[property] = value;
+        }
+        break;
+      case 'focus':
+        input.focus();
+        break;
+      case 'tokenize':
+        if (field === 'cardNumber') {
+          tokenize(message.requestId, message.holderName, message.excludeKeyId);
+        }
+        break;
+    }
+  });
+
+  postToParent({ type: 'ready', field });
+}
+
+function getEmbedderOrigin(): string {
+  const ancestors = window.location.ancestorOrigins;
+  if (ancestors && ancestors.length > 0) {
+    return ancestors[0];
+  }
+  try {
+    return new URL(document.referrer).origin;
+  } catch {
+    return '';
+  }
+}
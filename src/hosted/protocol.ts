@@ -0,0 +1,120 @@
+/**
+ * Hosted fields postMessage protocol (version 1).
+ *
+ * In hosted-fields mode the card number, expiry and CVV inputs live in
+ * iframes served from the Kairos origin. The merchant page never sees their
+ * values: the card number frame collects the other two over a
+ * BroadcastChannel (reachable only from the Kairos origin), encrypts the card
+ * and hands the parent nothing but the envelope.
+ *
+ * Every message is a plain object `{ ns: 'kairos-hosted-fields', v: 1, type, ... }`.
+ *
+ * Parent → frame (`window.postMessage`, targetOrigin = hosted fields origin):
+ *   init      { field, locale, placeholder, ariaLabel, styles, tenantId, merchantId }
+ *   focus     {}
+ *   tokenize  { requestId, holderName, excludeKeyId? }        (card number frame only)
+ *
+ * Frame → parent (`window.parent.postMessage`, targetOrigin = parent origin):
+ *   ready     { field }
+ *   change    { field, isEmpty, isValid, error?, brand?, bin? }  (bin: card number frame only)
+ *   focus     { field }
+ *   blur      { field }
+ *   tokenized { requestId, encryptedData, brand?, bin, lastFourDigits }
+ *   tokenizeError { requestId, code, message, field? }
+ *
+ * Frame ↔ frame (`BroadcastChannel('kairos-hosted-fields:<session>')`):
+ *   brand     { brand }                     number → CVV, so the CVV length follows the brand
+ *   collect   { requestId }                 number → expiry/CVV
+ *   value     { requestId, field, value }   expiry/CVV → number
+ *
+ * Origin checks: the parent only accepts messages whose `origin` is the
+ * hosted fields origin and whose `source` is one of its own frames. Frames
+ * only accept messages from `window.parent` with the origin given in the
+ * frame URL, and refuse to render when that origin doesn't match the actual
+ * embedding page (`location.ancestorOrigins` / `document.referrer`).
+ *
+ * The API URL and the pinned root keys are fixed by the frame page itself and
+ * never taken from the parent, so a hostile page can't make the frame encrypt
+ * with a key it controls.
+ */
+
+import type { CardBrand } from '../card/brands';
+import type { CardValidationCode } from '../card/validation';
+
+export const HOSTED_FIELDS_NAMESPACE = 'kairos-hosted-fields';
+export const HOSTED_FIELDS_PROTOCOL_VERSION = 1;
+
+/** Fields rendered inside Kairos-origin frames */
+export type HostedField = 'cardNumber' | 'expiry' | 'cvv';
+
+export const HOSTED_FIELDS: readonly HostedField[] = ['cardNumber', 'expiry', 'cvv'];
+
+/** Style properties the parent may pass to a frame (applied as inline styles, never as CSS text) */
+export interface HostedFieldStyles {
+  color?: string;
+  fontFamily?: string;
+  fontSize?: string;
+  letterSpacing?: string;
+}
+
+export type ParentToFrameMessage =
+  | {
+      type: 'init';
+      field: HostedField;
+      locale: string;
+      placeholder: string;
+      ariaLabel: string;
+      styles: HostedFieldStyles;
+      tenantId: string;
+      merchantId: string;
+    }
+  | { type: 'focus' }
+  | { type: 'tokenize'; requestId: string; holderName: string; excludeKeyId?: string };
+
+export type FrameToParentMessage =
+  | { type: 'ready'; field: HostedField }
+  | {
+      type: 'change';
+      field: HostedField;
+      isEmpty: boolean;
+      isValid: boolean;
+      error?: CardValidationCode;
+      brand?: CardBrand;
+      bin?: string;
+    }
+  | { type: 'focus'; field: HostedField }
+  | { type: 'blur'; field: HostedField }
+  | {
+      type: 'tokenized';
+      requestId: string;
+      encryptedData: string;
+      brand?: CardBrand;
+      bin: string;
+      lastFourDigits: string;
+    }
+  | { type: 'tokenizeError'; requestId: string; code: string; message: string; field?: string };
+
+export type FrameToFrameMessage =
+  | { type: 'brand'; brand?: CardBrand }
+  | { type: 'collect'; requestId: string }
+  | { type: 'value'; requestId: string; field: HostedField; value: string };
+
+export type Envelope<T> = T & { ns: typeof HOSTED_FIELDS_NAMESPACE; v: typeof HOSTED_FIELDS_PROTOCOL_VERSION };
+
+/** Wrap a message with the protocol namespace and version. */
+export function envelope<T extends { type: string }>(message: T): Envelope<T> {
+  return { ns: HOSTED_FIELDS_NAMESPACE, v: HOSTED_FIELDS_PROTOCOL_VERSION, ...message };
+}
+
+/** Whether `data` is a message of this protocol version. */
+export function isProtocolMessage<T extends { type: string }>(data: unknown): data is Envelope<T> {
+  return typeof data === 'object' && data !== null
+    && (data as { ns?: unknown }).ns === HOSTED_FIELDS_NAMESPACE
+    && (data as { v?: unknown }).v === HOSTED_FIELDS_PROTOCOL_VERSION
+    && typeof (data as { type?: unknown }).type === 'string';
+}
+
+/** BroadcastChannel name shared by the frames of one form. */
+export function getChannelName(session: string): string {
+  return `${HOSTED_FIELDS_NAMESPACE}:${session}`;
+}
@@ -0,0 +1,61 @@
+/**
+ * Locale-aware number and currency formatting (Intl-based).
+ */
+
+import type { InstallmentOption, Money } from '../types';
+import { toMajorUnits, CURRENCY_DECIMALS } from '../core/money';
+import { DEFAULT_LOCALE, formatMessage } from './messages';
+import type { Messages } from './messages';
+
+const formatterCache = new Map<string, Intl.NumberFormat>();
+
+function getFormatter(locale: string, options: Intl.NumberFormatOptions): Intl.NumberFormat {
+  const key = `${locale}|${JSON.stringify(options)}`;
+  let formatter = formatterCache.get(key);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(locale, options);
+    formatterCache.set(key, formatter);
+  }
+  return formatter;
+}
+
+/** Format an amount as currency, e.g. 'R$ 1.234,56' (pt-BR) or 'R$1,234.56' (en-US). */
+export function formatCurrency(amount: number, locale: string = DEFAULT_LOCALE, currency: string = 'BRL'): string {
+  return getFormatter(locale, { style: 'currency', currency }).format(amount);
+}
+
+/**
+ * Format Money in its own currency, using the currency's minor-unit digits
+ * (e.g. 'CLP 15.000' has no decimals, 'R$ 10,50' has two).
+ */
+export function formatMoney(money: Money, locale: string = DEFAULT_LOCALE): string {
+  const digits = CURRENCY_DECIMALS[money.currency] ?? 2;
+  return getFormatter(locale, {
+    style: 'currency',
+    currency: money.currency,
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  }).format(toMajorUnits(money));
+}
+
+/** Format a number with the locale's separators, e.g. '1,99' (pt-BR). */
+export function formatNumber(value: number, locale: string = DEFAULT_LOCALE, fractionDigits: number = 2): string {
+  return getFormatter(locale, {
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits,
+  }).format(value);
+}
+
+/** Installment option label, e.g. '3x de R$ 33,33 sem juros'. */
+export function formatInstallmentLabel(
+  option: InstallmentOption,
+  messages: Messages,
+  locale: string = DEFAULT_LOCALE
+): string {
+  const template = option.interestFree ? messages.installmentInterestFree : messages.installmentWithInterest;
+  return formatMessage(template, {
+    count: option.installments,
+    amount: formatMoney(option.installmentMoney, locale),
+    total: formatMoney(option.totalMoney, locale),
+  });
+}
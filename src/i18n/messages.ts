@@ -0,0 +1,276 @@
+/**
+ * Message catalogs for every UI string the SDK renders.
+ *
+ * Components resolve their strings through `getMessages(locale, overrides)`,
+ * so integrators can replace any key (e.g. a custom pay button label) via
+ * `KairosConfig.messages` without forking the catalogs. Templates use
+ * `{name}` placeholders, filled in by `formatMessage`.
+ */
+
+import type { CardValidationCode } from '../card/validation';
+
+export type Locale = 'pt-BR' | 'en-US' | 'es';
+
+export const DEFAULT_LOCALE: Locale = 'pt-BR';
+
+export interface Messages {
+  // Card form
+  cardNumberLabel: string;
+  expiryLabel: string;
+  expiryPlaceholder: string;
+  cvvLabel: string;
+  cardholderNameLabel: string;
+  cardholderNamePlaceholder: string;
+  installmentsLabel: string;
+  installmentsLoading: string;
+  /** Params: {count}, {amount} */
+  installmentInterestFree: string;
+  /** Params: {count}, {amount}, {total} */
+  installmentWithInterest: string;
+  payButton: string;
+  encrypting: string;
+  securePaymentTitle: string;
+  securePaymentSubtitle: string;
+  processingError: string;
+  loadingForm: string;
+  initError: string;
+
+  // Card validation
+  invalidCardNumber: string;
+  incompleteCardNumber: string;
+  invalidExpiry: string;
+  invalidMonth: string;
+  cardExpired: string;
+  invalidCvv: string;
+  invalidCardholderName: string;
+
+  // 3-D Secure
+  threeDSecureTitle: string;
+  threeDSecureClose: string;
+
+  // Errors (see core/errorCodes.ts)
+  errorValidation: string;
+  errorSubmitInProgress: string;
+  errorNetwork: string;
+  errorTimeout: string;
+  errorProvider: string;
+  errorTokenization: string;
+  errorSecurity: string;
+  errorUntrustedKey: string;
+  errorAuthentication: string;
+  errorAuthenticationFailed: string;
+  errorAuthenticationCancelled: string;
+  errorAuthenticationTimeout: string;
+  errorConfiguration: string;
+  errorUnknown: string;
+
+  // PIX
+  pixAmountLabel: string;
+  pixCopyCode: string;
+  pixCopied: string;
+  pixWaiting: string;
+  pixExpiresIn: string;
+  pixExpired: string;
+}
+
+export type MessageKey = keyof Messages;
+
+/** Partial per-key overrides, applied on top of the locale catalog */
+export type MessageOverrides = Partial<Messages>;
+
+const ptBR: Messages = {
+  cardNumberLabel: 'Número do cartão',
+  expiryLabel: 'Validade',
+  expiryPlaceholder: 'MM/AA',
+  cvvLabel: 'CVV',
+  cardholderNameLabel: 'Nome no cartão',
+  cardholderNamePlaceholder: 'NOME COMO NO CARTÃO',
+  installmentsLabel: 'Parcelas',
+  installmentsLoading: 'Carregando parcelas...',
+  installmentInterestFree: '{count}x de {amount} sem juros',
+  installmentWithInterest: '{count}x de {amount} (Total: {total})',
+  payButton: 'Pagar',
+  encrypting: 'Criptografando...',
+  securePaymentTitle: 'Pagamento Seguro',
+  securePaymentSubtitle: 'Criptografia ponta a ponta via Kairos Payment Hub',
+  processingError: 'Erro ao processar pagamento',
+  loadingForm: 'Carregando formulário de pagamento...',
+  initError: 'Não foi possível carregar o formulário de pagamento',
+
+  invalidCardNumber: 'Número do cartão inválido',
+  incompleteCardNumber: 'Número do cartão incompleto',
+  invalidExpiry: 'Data de validade inválida',
+  invalidMonth: 'Mês inválido',
+  cardExpired: 'Cartão expirado',
+  invalidCvv: 'CVV inválido',
+  invalidCardholderName: 'Nome inválido',
+
+  threeDSecureTitle: 'Autenticação do cartão',
+  threeDSecureClose: 'Fechar',
+
+  errorValidation: 'Verifique os dados do cartão',
+  errorSubmitInProgress: 'O pagamento já está sendo enviado',
+  errorNetwork: 'Falha de conexão. Verifique sua internet e tente novamente',
+  errorTimeout: 'O serviço demorou para responder. Tente novamente',
+  errorProvider: 'Serviço de pagamento indisponível. Tente novamente em instantes',
+  errorTokenization: 'Não foi possível processar o cartão. Tente novamente',
+  errorSecurity: 'Não foi possível proteger os dados do cartão. Tente novamente',
+  errorUntrustedKey: 'Conexão insegura detectada. O pagamento foi bloqueado',
+  errorAuthentication: 'Não foi possível autenticar o cartão. Tente novamente',
+  errorAuthenticationFailed: 'O emissor não autenticou o cartão',
+  errorAuthenticationCancelled: 'Autenticação cancelada',
+  errorAuthenticationTimeout: 'A autenticação expirou. Tente novamente',
+  errorConfiguration: 'Pagamento indisponível no momento',
+  errorUnknown: 'Erro inesperado. Tente novamente',
+
+  pixAmountLabel: 'Valor a pagar',
+  pixCopyCode: 'Copiar código PIX',
+  pixCopied: 'Código copiado!',
+  pixWaiting: 'Aguardando pagamento...',
+  pixExpiresIn: 'Expira em',
+  pixExpired: 'QR Code expirado',
+};
+
+const enUS: Messages = {
+  cardNumberLabel: 'Card number',
+  expiryLabel: 'Expiry',
+  expiryPlaceholder: 'MM/YY',
+  cvvLabel: 'CVV',
+  cardholderNameLabel: 'Name on card',
+  cardholderNamePlaceholder: 'NAME AS SHOWN ON CARD',
+  installmentsLabel: 'Installments',
+  installmentsLoading: 'Loading installments...',
+  installmentInterestFree: '{count}x of {amount} interest-free',
+  installmentWithInterest: '{count}x of {amount} (Total: {total})',
+  payButton: 'Pay',
+  encrypting: 'Encrypting...',
+  securePaymentTitle: 'Secure Payment',
+  securePaymentSubtitle: 'End-to-end encryption by Kairos Payment Hub',
+  processingError: 'Error processing payment',
+  loadingForm: 'Loading payment form...',
+  initError: 'Could not load the payment form',
+
+  invalidCardNumber: 'Invalid card number',
+  incompleteCardNumber: 'Incomplete card number',
+  invalidExpiry: 'Invalid expiry date',
+  invalidMonth: 'Invalid month',
+  cardExpired: 'Card expired',
+  invalidCvv: 'Invalid CVV',
+  invalidCardholderName: 'Invalid name',
+
+  threeDSecureTitle: 'Card authentication',
+  threeDSecureClose: 'Close',
+
+  errorValidation: 'Check the card details',
+  errorSubmitInProgress: 'The payment is already being submitted',
+  errorNetwork: 'Connection failed. Check your internet connection and try again',
+  errorTimeout: 'The service took too long to respond. Please try again',
+  errorProvider: 'Payment service unavailable. Please try again shortly',
+  errorTokenization: 'Could not process the card. Please try again',
+  errorSecurity: 'Could not secure the card data. Please try again',
+  errorUntrustedKey: 'Insecure connection detected. The payment was blocked',
+  errorAuthentication: 'Could not authenticate the card. Please try again',
+  errorAuthenticationFailed: 'The card issuer did not authenticate the card',
+  errorAuthenticationCancelled: 'Authentication cancelled',
+  errorAuthenticationTimeout: 'Authentication timed out. Please try again',
+  errorConfiguration: 'Payment is unavailable at the moment',
+  errorUnknown: 'Unexpected error. Please try again',
+
+  pixAmountLabel: 'Amount to pay',
+  pixCopyCode: 'Copy PIX code',
+  pixCopied: 'Code copied!',
+  pixWaiting: 'Waiting for payment...',
+  pixExpiresIn: 'Expires in',
+  pixExpired: 'QR Code expired',
+};
+
+const es: Messages = {
+  cardNumberLabel: 'Número de tarjeta',
+  expiryLabel: 'Vencimiento',
+  expiryPlaceholder: 'MM/AA',
+  cvvLabel: 'CVV',
+  cardholderNameLabel: 'Nombre en la tarjeta',
+  cardholderNamePlaceholder: 'NOMBRE COMO EN LA TARJETA',
+  installmentsLabel: 'Cuotas',
+  installmentsLoading: 'Cargando cuotas...',
+  installmentInterestFree: '{count}x de {amount} sin interés',
+  installmentWithInterest: '{count}x de {amount} (Total: {total})',
+  payButton: 'Pagar',
+  encrypting: 'Cifrando...',
+  securePaymentTitle: 'Pago Seguro',
+  securePaymentSubtitle: 'Cifrado de extremo a extremo vía Kairos Payment Hub',
+  processingError: 'Error al procesar el pago',
+  loadingForm: 'Cargando formulario de pago...',
+  initError: 'No se pudo cargar el formulario de pago',
+
+  invalidCardNumber: 'Número de tarjeta inválido',
+  incompleteCardNumber: 'Número de tarjeta incompleto',
+  invalidExpiry: 'Fecha de vencimiento inválida',
+  invalidMonth: 'Mes inválido',
+  cardExpired: 'Tarjeta vencida',
+  invalidCvv: 'CVV inválido',
+  invalidCardholderName: 'Nombre inválido',
+
+  threeDSecureTitle: 'Autenticación de la tarjeta',
+  threeDSecureClose: 'Cerrar',
+
+  errorValidation: 'Verifique los datos de la tarjeta',
+  errorSubmitInProgress: 'El pago ya se está enviando',
+  errorNetwork: 'Falla de conexión. Verifique su internet e intente de nuevo',
+  errorTimeout: 'El servicio tardó en responder. Intente de nuevo',
+  errorProvider: 'Servicio de pago no disponible. Intente de nuevo en unos instantes',
+  errorTokenization: 'No se pudo procesar la tarjeta. Intente de nuevo',
+  errorSecurity: 'No se pudieron proteger los datos de la tarjeta. Intente de nuevo',
+  errorUntrustedKey: 'Conexión insegura detectada. El pago fue bloqueado',
+  errorAuthentication: 'No se pudo autenticar la tarjeta. Intente de nuevo',
+  errorAuthenticationFailed: 'El emisor no autenticó la tarjeta',
+  errorAuthenticationCancelled: 'Autenticación cancelada',
+  errorAuthenticationTimeout: 'La autenticación expiró. Intente de nuevo',
+  errorConfiguration: 'Pago no disponible en este momento',
+  errorUnknown: 'Error inesperado. Intente de nuevo',
+
+  pixAmountLabel: 'Monto a pagar',
+  pixCopyCode: 'Copiar código PIX',
+  pixCopied: '¡Código copiado!',
+  pixWaiting: 'Esperando el pago...',
+  pixExpiresIn: 'Expira en',
+  pixExpired: 'Código QR expirado',
+};
+
+const CATALOGS: Record<Locale, Messages> = {
+  'pt-BR': ptBR,
+  'en-US': enUS,
+  'es': es,
+};
+
+const VALIDATION_MESSAGE_KEYS: Record<CardValidationCode, MessageKey> = {
+  INVALID_NUMBER: 'invalidCardNumber',
+  INVALID_LENGTH: 'incompleteCardNumber',
+  INVALID_CHECK_DIGIT: 'invalidCardNumber',
+  INVALID_EXPIRY: 'invalidExpiry',
+  INVALID_MONTH: 'invalidMonth',
+  CARD_EXPIRED: 'cardExpired',
+  INVALID_CVV: 'invalidCvv',
+  INVALID_NAME: 'invalidCardholderName',
+};
+
+/**
+ * Resolve the catalog for a locale (falls back to pt-BR for unknown locales),
+ * with per-key overrides applied.
+ */
+export function getMessages(locale: string = DEFAULT_LOCALE, overrides?: MessageOverrides): Messages {
+  const catalog = CATALOGS[locale as Locale] || CATALOGS[DEFAULT_LOCALE];
+  return overrides ? { ...catalog, ...overrides } : catalog;
+}
+
+/** Fill `{name}` placeholders in a message template. */
+export function formatMessage(template: string, params: Record<string, string | number> = {}): string {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match
+  );
+}
+
+/** Localized message for a card validation error code. */
+export function getValidationMessage(code: CardValidationCode, messages: Messages): string {
+  return messages[VALIDATION_MESSAGE_KEYS[code]];
+}
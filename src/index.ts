@@ -24,27 +24,164 @@
 export { KairosPayments } from './core/KairosPayments';
 export { CardPaymentForm } from './components/CardPaymentForm';
 export { KairosEncryptedAdapter } from './adapters/KairosEncryptedAdapter';
+export { MercadoPagoAdapter } from './adapters/MercadoPagoAdapter';
+export { PagSeguroAdapter } from './adapters/PagSeguroAdapter';
+export { KairosPaymentError } from './core/errors';
+
+// Error taxonomy
+export { ErrorCode, ERROR_DEFINITIONS, isErrorCode, getErrorDefinition, getErrorMessage } from './core/errorCodes';
+export type { ErrorCategory, ErrorDefinition } from './core/errorCodes';
+export {
+  MERCADOPAGO_BRICKS_ERRORS,
+  MERCADOPAGO_CARD_TOKEN_ERRORS,
+  PAGSEGURO_ERRORS,
+  mapMercadoPagoBricksError,
+  mapMercadoPagoCardTokenError,
+  mapPagSeguroError
+} from './adapters/pspErrors';
+export type { PspErrorMapping } from './adapters/pspErrors';
 
 // PIX QR Code display with copy-paste
 export { createPixQrCode } from './components/PixQrCode';
 export type { PixQrCodeConfig, PixQrCodeInstance } from './components/PixQrCode';
 
+// Hosted fields (card inputs in Kairos-origin iframes)
+export { HOSTED_FIELDS_NAMESPACE, HOSTED_FIELDS_PROTOCOL_VERSION } from './hosted/protocol';
+export type {
+  HostedField,
+  HostedFieldStyles,
+  ParentToFrameMessage,
+  FrameToParentMessage,
+  FrameToFrameMessage
+} from './hosted/protocol';
+
+// 3-D Secure 2
+export { authenticateThreeDSecure } from './threeds/authenticate';
+export { collectBrowserData } from './threeds/browserData';
+export { THREE_DS_MESSAGE_NAMESPACE } from './threeds/frames';
+
+// Antifraud signals
+export { collectRiskContext, getDeviceId } from './risk/riskContext';
+export { TypingCadenceTracker } from './risk/typingCadence';
+
+// CSP / Trusted Types
+export { TRUSTED_TYPES_POLICY_NAME } from './dom/csp';
+
 // Payment status polling
 export { PaymentPoller } from './core/PaymentPoller';
 export type { PaymentPollerConfig, PaymentStatusResponse, PaymentStatus } from './core/PaymentPoller';
 
+// i18n
+export { getMessages, formatMessage } from './i18n/messages';
+export type { Locale, Messages, MessageKey, MessageOverrides } from './i18n/messages';
+export { formatCurrency, formatMoney, formatNumber } from './i18n/format';
+
+// Money
+export {
+  toMoney,
+  fromMajorUnits,
+  toMajorUnits,
+  isMoney,
+  equalsMoney,
+  allocate,
+  CURRENCY_DECIMALS,
+  DEFAULT_CURRENCY
+} from './core/money';
+
+// Installment plans
+export {
+  calculateInstallments,
+  buildInstallmentOption,
+  clearInstallmentsCache,
+  DEFAULT_INSTALLMENT_RULES
+} from './core/installments';
+
 // Encryption utilities
-export { encryptCardData, isEncryptionAvailable, clearEncryptionCache } from './crypto/encryption';
-export type { CardDataToEncrypt } from './crypto/encryption';
+export {
+  encryptCardData,
+  encryptPayload,
+  isEncryptionAvailable,
+  clearEncryptionCache,
+  getEnvelopeKeyId,
+  isUnknownKeyIdError,
+  ENVELOPE_VERSION,
+  UNKNOWN_KEY_ID
+} from './crypto/encryption';
+export type { CardDataToEncrypt, EncryptOptions, EncryptionCacheScope } from './crypto/encryption';
+export type {
+  PayloadSchema,
+  PayloadSchemas,
+  CvvPayload,
+  DocumentPayload,
+  BillingAddressPayload
+} from './crypto/payloads';
+export { KAIROS_ROOT_KEYS, UNTRUSTED_KEY_ERROR, verifyMerchantKey } from './crypto/keyVerification';
+
+// Card validation
+export {
+  detectCardBrand,
+  luhnCheck,
+  validateCard,
+  validateCardNumber,
+  validateExpiry,
+  validateCvv,
+  validateHolderName,
+  validateCardData,
+  normalizeCardData,
+  parseExpiry,
+  getCvvLength
+} from './card/validation';
+export type { CardField, CardInput, CardValidationCode, CardValidationResult } from './card/validation';
+export {
+  formatCardNumber,
+  formatExpiry,
+  getCardNumberPlaceholder,
+  getMaxCardLength,
+  applyMask,
+  maskCardNumberInput,
+  syncCvvInput
+} from './card/masking';
+export { extractBin } from './card/formState';
+export { CARD_BRANDS, findCardBrand, getCardBrandRule } from './card/brands';
+export type { CardBrand, CardBrandRule, BinRange } from './card/brands';
 
 // Types
 export type {
   KairosConfig,
+  InitOptions,
+  NetworkConfig,
   CardPaymentConfig,
+  CardPaymentInstance,
+  CardPaymentHandle,
+  KairosEventMap,
   PaymentData,
+  CardData,
+  PinnedKey,
   InstallmentOption,
+  InstallmentRules,
+  Money,
+  CurrencyCode,
+  PaymentError,
+  FormState,
   TokenizationOptions,
-  PspAdapter
+  TokenizationOption,
+  PspAdapter,
+  AdapterFactory,
+  ThreeDSecureConfig,
+  ThreeDSecureResult,
+  ThreeDSPrepareRequest,
+  ThreeDSPrepareResponse,
+  ThreeDSAuthenticateRequest,
+  ThreeDSAuthenticateResponse,
+  ThreeDSBrowserData,
+  ThreeDSTransStatus,
+  ChallengeWindowSize,
+  RiskCollectionConfig,
+  FailoverConfig,
+  ProviderSwitchEvent,
+  RoutingRule,
+  RiskContext,
+  TypingCadence
 } from './types';
 
 // Version
@@ -0,0 +1,145 @@
+/**
+ * Device and browser signal collection for antifraud (`PaymentData.riskContext`).
+ *
+ * Opt-in via `KairosConfig.riskCollection`. The device id is a random value
+ * persisted in localStorage (falling back to the page session when storage is
+ * blocked); nothing is derived from canvas/audio fingerprinting. PSP and
+ * third-party antifraud SDKs contribute their own device ids through
+ * `PspAdapter.getDeviceSessionId` and `RiskCollectionConfig.deviceIdProviders`.
+ */
+
+import type { RiskCollectionConfig, RiskContext, TypingCadence } from '../types';
+
+const DEVICE_ID_STORAGE_KEY = 'kairos_device_id';
+const DEFAULT_DEVICE_ID_TIMEOUT_MS = 3000;
+
+let sessionId: string | null = null;
+let memoryDeviceId: string | null = null;
+
+/** Normalize `KairosConfig.riskCollection` (false/undefined = disabled) */
+export function resolveRiskCollectionConfig(
+  option: boolean | RiskCollectionConfig | undefined
+): RiskCollectionConfig | null {
+  if (!option) return null;
+  return option === true ? {} : option;
+}
+
+/** Stable random device id (localStorage, or this page session when storage is unavailable) */
+export function getDeviceId(): string {
+  try {
+    let id = localStorage.getItem(DEVICE_ID_STORAGE_KEY);
+    if (!id) {
+      id = randomId();
+      localStorage.setItem(DEVICE_ID_STORAGE_KEY, id);
+    }
+    return id;
+  } catch {
+    memoryDeviceId = memoryDeviceId || randomId();
+    return memoryDeviceId;
+  }
+}
+
+export function getSessionId(): string {
+  sessionId = sessionId || randomId();
+  return sessionId;
+}
+
+/**
+ * Collect the browser signals and device ids.
+ *
+ * @param config - Risk collection options
+ * @param sources - Typing cadence of the form and the PSP's device id, when available
+ */
+export async function collectRiskContext(
+  config: RiskCollectionConfig,
+  sources: {
+    typing?: TypingCadence;
+    pspDeviceIds?: Record<string, (signal: AbortSignal) => Promise<string | undefined>>;
+  } = {}
+): Promise<RiskContext> {
+  const timeoutMs = config.deviceIdTimeoutMs ?? DEFAULT_DEVICE_ID_TIMEOUT_MS;
+  const providers = {
+    ...(config.pspDeviceId !== false ? sources.pspDeviceIds : {}),
+    ...config.deviceIdProviders,
+  };
+
+  const [userAgentHints, deviceIdEntries] = await Promise.all([
+    collectUserAgentHints(),
+    Promise.all(Object.entries(providers).map(async ([name, provider]) => {
+      // Aborted once we stop waiting, so providers that poll can stop
+      const controller = new AbortController();
+      const id = await withTimeout(Promise.resolve().then(() => provider(controller.signal)), timeoutMs)
+        .catch(() => undefined);
+      controller.abort();
+      return [name, id] as const;
+    })),
+  ]);
+
+  const deviceIds: Record<string, string> = {};
+  for (const [name, id] of deviceIdEntries) {
+    if (id) deviceIds[name] = id;
+  }
+
+  return {
+    deviceId: getDeviceId(),
+    sessionId: getSessionId(),
+    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || '',
+    timezoneOffset: new Date().getTimezoneOffset(),
+    screen: {
+      width: window.screen?.width || 0,
+      height: window.screen?.height || 0,
+      colorDepth: window.screen?.colorDepth || 0,
+      pixelRatio: window.devicePixelRatio || 1,
+    },
+    language: navigator.language || '',
+    languages: [...(navigator.languages || [])],
+    userAgent: navigator.userAgent,
+    ...(userAgentHints ? { userAgentHints } : {}),
+    ...(config.typingCadence !== false && sources.typing ? { typing: sources.typing } : {}),
+    deviceIds,
+    collectedAt: new Date().toISOString(),
+  };
+}
+
+interface NavigatorUAData {
+  brands: { brand: string; version: string }[];
+  mobile: boolean;
+  platform: string;
+  getHighEntropyValues(hints: string[]): Promise<{ platformVersion?: string; model?: string }>;
+}
+
+async function collectUserAgentHints(): Promise<RiskContext['userAgentHints']> {
+  const data = (navigator as Navigator & { userAgentData?: NavigatorUAData }).userAgentData;
+  if (!data) return undefined;
+
+  const hints: NonNullable<RiskContext['userAgentHints']> = {
+    brands: data.brands.map(({ brand, version }) => ({ brand, version })),
+    mobile: data.mobile,
+    platform: data.platform,
+  };
+
+  try {
+    const values = await data.getHighEntropyValues(['platformVersion', 'model']);
+    if (values.platformVersion) hints.platformVersion = values.platformVersion;
+    if (values.model) hints.model = values.model;
+  } catch {
+    // High-entropy hints may be blocked by permissions policy
+  }
+
+  return hints;
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T | undefined> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => resolve(undefined), timeoutMs);
+    promise.then(
+      value => { clearTimeout(timer); resolve(value); },
+      err => { clearTimeout(timer); reject(err); }
+    );
+  });
+}
+
+function randomId(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
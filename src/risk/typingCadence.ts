@@ -0,0 +1,67 @@
+/**
+ * Typing cadence on the card form, for antifraud.
+ *
+ * Only keystroke timestamps are kept — never which key was pressed — and only
+ * for inputs inside the form container. Bots and card-testing scripts tend to
+ * fill fields instantly or with perfectly regular intervals.
+ */
+
+import type { TypingCadence } from '../types';
+
+/** Keep the most recent intervals only */
+const MAX_SAMPLES = 200;
+
+export class TypingCadenceTracker {
+  private intervals: number[] = [];
+  private keystrokes = 0;
+  private firstAt = 0;
+  private lastAt = 0;
+  private pasted = false;
+
+  private readonly onKeyDown = (event: Event) => {
+    if (!isTextInput(event.target)) return;
+    const now = performance.now();
+    if (this.keystrokes === 0) {
+      this.firstAt = now;
+    } else {
+      this.intervals.push(now - this.lastAt);
+      if (this.intervals.length > MAX_SAMPLES) this.intervals.shift();
+    }
+    this.lastAt = now;
+    this.keystrokes++;
+  };
+
+  private readonly onPaste = (event: Event) => {
+    if (isTextInput(event.target)) this.pasted = true;
+  };
+
+  constructor(private readonly container: Element) {
+    container.addEventListener('keydown', this.onKeyDown, true);
+    container.addEventListener('paste', this.onPaste, true);
+  }
+
+  getCadence(): TypingCadence | undefined {
+    if (this.keystrokes === 0 && !this.pasted) return undefined;
+
+    const count = this.intervals.length;
+    const mean = count ? this.intervals.reduce((sum, value) => sum + value, 0) / count : 0;
+    const variance = count ? this.intervals.reduce((sum, value) => sum + (value - mean) ** 2, 0) / count : 0;
+
+    return {
+      keystrokes: this.keystrokes,
+      meanIntervalMs: Math.round(mean),
+      stdDevIntervalMs: Math.round(Math.sqrt(variance)),
+      durationMs: Math.round(this.lastAt - this.firstAt),
+      pasted: this.pasted,
+    };
+  }
+
+  destroy(): void {
+    this.container.removeEventListener('keydown', this.onKeyDown, true);
+    this.container.removeEventListener('paste', this.onPaste, true);
+  }
+}
+
+function isTextInput(target: EventTarget | null): boolean {
+  return target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement;
+}
@@ -0,0 +1,5 @@
+/** Stylesheets are imported as strings (see the css plugin in rollup.config.js) */
+declare module '*.css' {
+  const css: string;
+  export default css;
+}
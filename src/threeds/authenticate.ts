@@ -0,0 +1,112 @@
+/**
+ * EMV 3-D Secure 2 browser flow.
+ *
+ * prepare (backend) → 3DS Method (hidden iframe) → authenticate (backend,
+ * with the browser data) → frictionless result, or challenge (iframe/modal)
+ * followed by getResult (backend). The result is attached to the PaymentData
+ * before it reaches `onSubmit`.
+ */
+
+import type {
+  CardPaymentConfig,
+  Money,
+  PaymentData,
+  ThreeDSecureResult,
+  ThreeDSAuthenticateResponse,
+} from '../types';
+import type { Messages } from '../i18n/messages';
+import { KairosPaymentError, toPaymentError } from '../core/errors';
+import { ErrorCode } from '../core/errorCodes';
+import { collectBrowserData } from './browserData';
+import { runThreeDSMethod, runChallenge } from './frames';
+
+const DEFAULT_METHOD_TIMEOUT_MS = 10000;
+const DEFAULT_CHALLENGE_TIMEOUT_MS = 600000;
+
+/**
+ * Authenticate the cardholder and set `paymentData.threeDSecure`.
+ * Rejects with AUTHENTICATION_FAILED (N/R, or U with `requireAuthentication`),
+ * AUTHENTICATION_CANCELLED, AUTHENTICATION_TIMEOUT or AUTHENTICATION_ERROR;
+ * `onAuthenticationFailed` is called before rejecting.
+ */
+export async function authenticateThreeDSecure(
+  paymentData: PaymentData,
+  amount: Money,
+  config: CardPaymentConfig,
+  container: Element,
+  messages: Messages
+): Promise<ThreeDSecureResult | undefined> {
+  const threeDSecure = config.threeDSecure;
+  if (!threeDSecure) return undefined;
+
+  const mode = threeDSecure.challengeMode || 'modal';
+  const windowSize = threeDSecure.challengeWindowSize || (mode === 'inline' ? '05' : '02');
+  let result: ThreeDSecureResult | undefined;
+
+  const fail = (error: KairosPaymentError): never => {
+    config.onAuthenticationFailed?.(error.toJSON(), result);
+    throw error;
+  };
+
+  try {
+    const prepared = await threeDSecure.prepare({ paymentData, amount });
+
+    let methodCompletion: 'Y' | 'N' | 'U' = 'U';
+    if (prepared.methodUrl && prepared.methodNotificationUrl) {
+      methodCompletion = await runThreeDSMethod(
+        prepared.methodUrl,
+        prepared.transactionId,
+        prepared.methodNotificationUrl,
+        threeDSecure.methodTimeoutMs ?? DEFAULT_METHOD_TIMEOUT_MS
+      );
+    }
+
+    const response: ThreeDSAuthenticateResponse = await threeDSecure.authenticate({
+      transactionId: prepared.transactionId,
+      methodCompletion,
+      browser: collectBrowserData(windowSize),
+      paymentData,
+      amount,
+    });
+
+    if (response.transStatus === 'C') {
+      if (!response.challenge) {
+        throw new Error('Challenge required but no challenge data was returned');
+      }
+      config.onChallengeStart?.();
+      await runChallenge({
+        acsUrl: response.challenge.acsUrl,
+        creq: response.challenge.creq,
+        mode,
+        windowSize,
+        container,
+        messages,
+        timeoutMs: threeDSecure.challengeTimeoutMs ?? DEFAULT_CHALLENGE_TIMEOUT_MS,
+      });
+      // The challenge page only signals completion: the outcome comes from the 3DS server
+      result = { ...(await threeDSecure.getResult(prepared.transactionId)), challenged: true };
+    } else {
+      result = response.result || {
+        transactionId: prepared.transactionId,
+        transStatus: response.transStatus,
+        challenged: false,
+      };
+    }
+  } catch (err) {
+    return fail(toPaymentError(err, ErrorCode.AUTHENTICATION_ERROR, '3-D Secure authentication failed'));
+  }
+
+  const authenticated = result.transStatus === 'Y' || result.transStatus === 'A';
+  if (result.transStatus === 'U' && threeDSecure.requireAuthentication) {
+    fail(new KairosPaymentError({ code: ErrorCode.AUTHENTICATION_FAILED, message: 'Card authentication is unavailable' }));
+  } else if (!authenticated && result.transStatus !== 'U') {
+    fail(new KairosPaymentError({ code: ErrorCode.AUTHENTICATION_FAILED, message: 'Card authentication failed' }));
+  }
+
+  // U without requireAuthentication: proceed, letting the backend decide
+  paymentData.threeDSecure = result;
+  if (authenticated) {
+    config.onAuthenticated?.(result);
+  }
+  return result;
+}
@@ -0,0 +1,33 @@
+/**
+ * Browser data collection for the 3DS2 AReq (browser channel).
+ *
+ * Values follow the EMV 3DS formats: color depth snapped to the allowed
+ * values, timezone as minutes from UTC (positive west of UTC, as returned by
+ * `Date.getTimezoneOffset`), dimensions as strings.
+ */
+
+import type { ChallengeWindowSize, ThreeDSBrowserData } from '../types';
+
+// browserColorDepth must be one of these
+const COLOR_DEPTHS = [1, 4, 8, 15, 16, 24, 32, 48];
+
+// Browsers don't expose the request's Accept header; this is what they send for documents
+const DEFAULT_ACCEPT_HEADER = 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8';
+
+export function collectBrowserData(challengeWindowSize: ChallengeWindowSize): ThreeDSBrowserData {
+  const depth = window.screen?.colorDepth || 24;
+  const colorDepth = COLOR_DEPTHS.reduce((best, value) => (value <= depth ? value : best), 1);
+
+  return {
+    browserAcceptHeader: DEFAULT_ACCEPT_HEADER,
+    browserColorDepth: String(colorDepth),
+    browserJavaEnabled: false,
+    browserJavascriptEnabled: true,
+    browserLanguage: navigator.language || 'pt-BR',
+    browserScreenHeight: String(window.screen?.height || 0),
+    browserScreenWidth: String(window.screen?.width || 0),
+    browserTZ: String(new Date().getTimezoneOffset()),
+    browserUserAgent: navigator.userAgent,
+    challengeWindowSize,
+  };
+}
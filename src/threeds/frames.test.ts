@@ -0,0 +1,83 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { runThreeDSMethod } from './frames';
+
+const NOTIFICATION_URL = 'https://merchant.test/3ds/method-notification';
+
+function methodFrame(): HTMLIFrameElement {
+  return document.querySelector('iframe[name^="kairos-3ds-method"]') as HTMLIFrameElement;
+}
+
+function postFromFrame(source: Window | null, origin: string, data: unknown): void {
+  window.dispatchEvent(new MessageEvent('message', { source, origin, data }));
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  // jsdom doesn't navigate: the method POST goes nowhere
+  vi.spyOn(HTMLFormElement.prototype, 'submit').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  document.body.replaceChildren();
+});
+
+describe('runThreeDSMethod', () => {
+  it("doesn't treat the ACS page load as completion", async () => {
+    const completion = runThreeDSMethod('https://acs.test/method', 'tx-1', NOTIFICATION_URL, 5000);
+    const iframe = methodFrame();
+
+    iframe.dispatchEvent(new Event('load'));
+    expect(iframe.isConnected).toBe(true);
+
+    await vi.advanceTimersByTimeAsync(5000);
+    await expect(completion).resolves.toBe('N');
+    expect(iframe.isConnected).toBe(false);
+  });
+
+  it('resolves Y when the notification page signals completion', async () => {
+    const completion = runThreeDSMethod('https://acs.test/method', 'tx-1', NOTIFICATION_URL, 5000);
+    const iframe = methodFrame();
+
+    postFromFrame(iframe.contentWindow, 'https://merchant.test', { ns: 'kairos-3ds', type: 'methodComplete' });
+
+    await expect(completion).resolves.toBe('Y');
+    expect(iframe.isConnected).toBe(false);
+  });
+
+  it('ignores completion messages from other frames, origins or types', async () => {
+    const completion = runThreeDSMethod('https://acs.test/method', 'tx-1', NOTIFICATION_URL, 5000);
+    const iframe = methodFrame();
+    const message = { ns: 'kairos-3ds', type: 'methodComplete' };
+
+    postFromFrame(window, 'https://merchant.test', message);
+    postFromFrame(iframe.contentWindow, 'https://acs.test', message);
+    postFromFrame(iframe.contentWindow, 'https://merchant.test', { ns: 'kairos-3ds', type: 'challengeComplete' });
+    expect(iframe.isConnected).toBe(true);
+
+    await vi.advanceTimersByTimeAsync(5000);
+    await expect(completion).resolves.toBe('N');
+  });
+
+  it('posts the transaction and notification URL to the ACS', async () => {
+    const submit = vi.mocked(HTMLFormElement.prototype.submit);
+    let fields: Record<string, string> = {};
+    submit.mockImplementation(function (this: HTMLFormElement) {
+      fields = Object.fromEntries(new FormData(this)) as Record<string, string>;
+      expect(this.action).toBe('https://acs.test/method');
+      expect(this.target).toBe(methodFrame().name);
+    });
+
+    const completion = runThreeDSMethod('https://acs.test/method', 'tx-1', NOTIFICATION_URL, 5000);
+    const data = fields.threeDSMethodData.replace(/-/g, '+').replace(/_/g, '/');
+
+    expect(JSON.parse(atob(data))).toEqual({
+      threeDSServerTransID: 'tx-1',
+      threeDSMethodNotificationURL: NOTIFICATION_URL,
+    });
+    await vi.advanceTimersByTimeAsync(5000);
+    await completion;
+  });
+});
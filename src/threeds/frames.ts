@@ -0,0 +1,214 @@
+/**
+ * 3DS2 browser-side frames: the hidden 3DS Method iframe and the challenge
+ * iframe (inline in the payment container, or in a modal).
+ *
+ * Both are filled by POSTing a form into a named iframe, as the EMV spec
+ * requires. Completion is only used as a trigger: the authoritative result is
+ * always fetched from the 3DS server afterwards.
+ */
+
+import type { ChallengeWindowSize } from '../types';
+import type { Messages } from '../i18n/messages';
+import { KairosPaymentError } from '../core/errors';
+import { ErrorCode } from '../core/errorCodes';
+
+/** Namespace of the messages the 3DS notification pages post to their parent */
+export const THREE_DS_MESSAGE_NAMESPACE = 'kairos-3ds';
+
+const WINDOW_SIZES: Record<ChallengeWindowSize, { width: string; height: string }> = {
+  '01': { width: '250px', height: '400px' },
+  '02': { width: '390px', height: '400px' },
+  '03': { width: '500px', height: '600px' },
+  '04': { width: '600px', height: '400px' },
+  '05': { width: '100%', height: '100%' },
+};
+
+let frameCounter = 0;
+
+function createNamedIframe(prefix: string): HTMLIFrameElement {
+  const iframe = document.createElement('iframe');
+  iframe.name = `${prefix}-${Date.now()}-${++frameCounter}`;
+  iframe.setAttribute('frameborder', '0');
+  iframe.style.border = 'none';
+  return iframe;
+}
+
+function postForm(target: HTMLIFrameElement, action: string, fields: Record<string, string>): void {
+  const form = document.createElement('form');
+  form.method = 'POST';
+  form.action = action;
+  form.target = target.name;
+  form.style.display = 'none';
+  for (const [name, value] of Object.entries(fields)) {
+    const input = document.createElement('input');
+    input.type = 'hidden';
+    input.name = name;
+    input.value = value;
+    form.appendChild(input);
+  }
+  document.body.appendChild(form);
+  form.submit();
+  form.remove();
+}
+
+function base64UrlEncode(value: string): string {
+  return btoa(value).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/** Whether a frame message is a Kairos 3DS completion signal of the given type */
+function isThreeDSMessage(data: unknown, type: string): boolean {
+  const message = data as { ns?: unknown; type?: unknown } | null;
+  return message?.ns === THREE_DS_MESSAGE_NAMESPACE && message.type === type;
+}
+
+/**
+ * Run the 3DS Method in a hidden iframe so the ACS can fingerprint the
+ * browser. Resolves 'Y' once the method notification page signals completion
+ * with `parent.postMessage({ ns: 'kairos-3ds', type: 'methodComplete' }, '*')`
+ * (or, when it is same-origin, once it loads), 'N' on timeout.
+ */
+export function runThreeDSMethod(
+  methodUrl: string,
+  transactionId: string,
+  notificationUrl: string,
+  timeoutMs: number
+): Promise<'Y' | 'N'> {
+  const iframe = createNamedIframe('kairos-3ds-method');
+  iframe.setAttribute('aria-hidden', 'true');
+  iframe.tabIndex = -1;
+  iframe.style.cssText = 'position:absolute;width:0;height:0;border:0;visibility:hidden;';
+  document.body.appendChild(iframe);
+
+  const notification = new URL(notificationUrl, window.location.href);
+
+  return new Promise(resolve => {
+    const finish = (completion: 'Y' | 'N') => {
+      clearTimeout(timer);
+      window.removeEventListener('message', onMessage);
+      iframe.removeEventListener('load', onLoad);
+      iframe.remove();
+      resolve(completion);
+    };
+    const timer = setTimeout(() => finish('N'), timeoutMs);
+
+    // The first load is the ACS method page itself: the ACS posts to the
+    // notification URL only after its fingerprinting ran, so completion comes
+    // from the notification page, from inside the method frame
+    const onMessage = (event: MessageEvent) => {
+      if (event.source !== iframe.contentWindow || event.origin !== notification.origin) return;
+      if (isThreeDSMessage(event.data, 'methodComplete')) finish('Y');
+    };
+    const onLoad = () => {
+      let href: string | undefined;
+      try {
+        href = iframe.contentWindow?.location.href;
+      } catch {
+        // Cross-origin page (the ACS, or a notification page on another origin)
+        return;
+      }
+      if (href && href.split(/[?#]/)[0] === notification.href.split(/[?#]/)[0]) finish('Y');
+    };
+
+    window.addEventListener('message', onMessage);
+    iframe.addEventListener('load', onLoad);
+
+    postForm(iframe, methodUrl, {
+      threeDSMethodData: base64UrlEncode(JSON.stringify({
+        threeDSServerTransID: transactionId,
+        threeDSMethodNotificationURL: notificationUrl,
+      })),
+    });
+  });
+}
+
+export interface ChallengeOptions {
+  acsUrl: string;
+  creq: string;
+  mode: 'inline' | 'modal';
+  windowSize: ChallengeWindowSize;
+  /** Payment container (inline mode) */
+  container: Element;
+  messages: Messages;
+  timeoutMs: number;
+}
+
+/**
+ * Display the ACS challenge and resolve once the ACS posted the CRes to the
+ * notification page, which signals completion with
+ * `parent.postMessage({ ns: 'kairos-3ds', type: 'challengeComplete' }, '*')`.
+ * Rejects with AUTHENTICATION_CANCELLED (modal closed) or AUTHENTICATION_TIMEOUT.
+ */
+export function runChallenge(options: ChallengeOptions): Promise<void> {
+  const size = WINDOW_SIZES[options.windowSize];
+  const iframe = createNamedIframe('kairos-3ds-challenge');
+  iframe.title = options.messages.threeDSecureTitle;
+  iframe.style.width = size.width;
+  iframe.style.height = size.height;
+  iframe.style.maxWidth = '100%';
+  iframe.style.display = 'block';
+
+  const wrapper = document.createElement('div');
+  wrapper.setAttribute('data-kairos-3ds-challenge', options.mode);
+
+  let closeButton: HTMLButtonElement | null = null;
+  if (options.mode === 'modal') {
+    wrapper.setAttribute('role', 'dialog');
+    wrapper.setAttribute('aria-modal', 'true');
+    wrapper.setAttribute('aria-label', options.messages.threeDSecureTitle);
+    wrapper.style.cssText = 'position:fixed;inset:0;z-index:2147483647;display:flex;align-items:center;justify-content:center;background:rgba(0,0,0,0.5);';
+
+    const dialog = document.createElement('div');
+    dialog.style.cssText = 'position:relative;background:#fff;border-radius:8px;overflow:hidden;max-width:100vw;max-height:100vh;';
+    if (options.windowSize === '05') {
+      dialog.style.width = '100vw';
+      dialog.style.height = '100vh';
+    }
+
+    closeButton = document.createElement('button');
+    closeButton.type = 'button';
+    closeButton.textContent = '×';
+    closeButton.setAttribute('aria-label', options.messages.threeDSecureClose);
+    closeButton.style.cssText = 'position:absolute;top:4px;right:8px;border:none;background:transparent;font-size:24px;line-height:1;cursor:pointer;color:#333;';
+
+    dialog.appendChild(iframe);
+    dialog.appendChild(closeButton);
+    wrapper.appendChild(dialog);
+    document.body.appendChild(wrapper);
+  } else {
+    wrapper.style.cssText = 'display:flex;justify-content:center;';
+    if (options.windowSize === '05') {
+      wrapper.style.height = '600px';
+    }
+    wrapper.appendChild(iframe);
+    options.container.appendChild(wrapper);
+  }
+
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      clearTimeout(timer);
+      window.removeEventListener('message', onMessage);
+      wrapper.remove();
+    };
+
+    const onMessage = (event: MessageEvent) => {
+      // Only the challenge frame can complete the challenge
+      if (event.source !== iframe.contentWindow) return;
+      if (!isThreeDSMessage(event.data, 'challengeComplete')) return;
+      cleanup();
+      resolve();
+    };
+
+    const timer = setTimeout(() => {
+      cleanup();
+      reject(new KairosPaymentError({ code: ErrorCode.AUTHENTICATION_TIMEOUT, message: '3DS challenge timed out' }));
+    }, options.timeoutMs);
+
+    closeButton?.addEventListener('click', () => {
+      cleanup();
+      reject(new KairosPaymentError({ code: ErrorCode.AUTHENTICATION_CANCELLED, message: '3DS challenge was cancelled' }));
+    });
+
+    window.addEventListener('message', onMessage);
+    postForm(iframe, options.acsUrl, { creq: options.creq });
+  });
+}
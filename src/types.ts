@@ -1,3 +1,7 @@
+import type { MessageOverrides } from './i18n/messages';
+import type { BinRange } from './card/brands';
+import type { ErrorCategory } from './core/errorCodes';
+
 /**
  * SDK Configuration
  */
@@ -14,22 +18,195 @@ export interface KairosConfig {
   /** Kairos API base URL (defaults to https://api.kairoshub.tech) */
   apiUrl?: string;
 
-  /** Preferred PSP provider (optional - uses tenant's default if not specified) */
-  preferredProvider?: 'MERCADOPAGO' | 'PAGSEGURO' | 'KAIROS';
+  /**
+   * Preferred PSP provider (optional - uses tenant's default if not specified).
+   * Any provider registered with `KairosPayments.registerAdapter` can be used.
+   */
+  preferredProvider?: 'MERCADOPAGO' | 'PAGSEGURO' | 'KAIROS' | (string & {});
 
   /** Locale for UI elements */
   locale?: 'pt-BR' | 'en-US' | 'es';
 
+  /** Per-key overrides for the locale's UI messages (e.g. { payButton: 'Finalizar' }) */
+  messages?: MessageOverrides;
+
+  /**
+   * Root keys that merchant encryption keys must be signed by.
+   * Replaces the Kairos root keys embedded in the SDK (e.g. for a private deployment).
+   */
+  pinnedKeys?: PinnedKey[];
+
+  /** Hosted field page used by `CardPaymentConfig.hostedFields` (defaults to the Kairos-hosted page) */
+  hostedFieldsUrl?: string;
+
+  /** CSP nonce applied to every `<style>` and `<script>` element the SDK creates */
+  cspNonce?: string;
+
+  /**
+   * 'inline' injects the SDK stylesheets; 'external' injects none — link
+   * `dist/kairos-payments.css` yourself (default: 'inline')
+   */
+  styleMode?: 'inline' | 'external';
+
+  /**
+   * Switch to the next provider (tenant options in order, then Kairos encryption)
+   * when one fails to initialize or keeps failing to tokenize. `false` disables it
+   * (default: enabled)
+   */
+  failover?: boolean | FailoverConfig;
+
+  /** Callback when the SDK switches to another provider */
+  onProviderSwitch?: (event: ProviderSwitchEvent) => void;
+
+  /**
+   * Rules choosing the tokenization provider per card (brand, BIN, amount,
+   * installments). Replaces the rules returned by the tokenization options endpoint
+   */
+  routingRules?: RoutingRule[];
+
+  /** Request timeouts and retries (see NetworkConfig) */
+  network?: NetworkConfig;
+
+  /**
+   * Collect device and browser signals for antifraud into `PaymentData.riskContext`
+   * (opt-in; `true` uses the defaults)
+   */
+  riskCollection?: boolean | RiskCollectionConfig;
+
   /** Enable debug logging */
   debug?: boolean;
 }
 
+/**
+ * Timeouts and retries for the SDK's requests to the Kairos API and PSP endpoints
+ */
+export interface NetworkConfig {
+  /** Timeout per attempt, in ms (default: 10000; 0 disables it) */
+  timeout?: number;
+
+  /** Retries of failed GET requests, with exponential backoff (default: 2) */
+  retries?: number;
+}
+
+/**
+ * Options for `KairosPayments.init`
+ */
+export interface InitOptions {
+  /** Cancels initialization; `init` then rejects with `ABORTED` */
+  signal?: AbortSignal;
+}
+
+/**
+ * Provider failover options
+ */
+export interface FailoverConfig {
+  /** Consecutive tokenization failures on a form before switching provider (default: 2) */
+  maxTokenizationFailures?: number;
+}
+
+export interface ProviderSwitchEvent {
+  /** Provider that failed */
+  from: string;
+
+  /** Provider the SDK switches to */
+  to: string;
+
+  reason: 'init' | 'tokenization';
+
+  /** Error that triggered the switch */
+  error: PaymentError;
+}
+
+/**
+ * Provider routing rule. Every condition present must match; rules are
+ * evaluated in order and the first match wins.
+ */
+export interface RoutingRule {
+  /** Provider that tokenizes matching cards */
+  provider: string;
+
+  /** Card brands (e.g. ['amex', 'elo']) */
+  brands?: string[];
+
+  /** BIN prefixes ('506699') or inclusive ranges (['650031', '650033']) */
+  bins?: BinRange[];
+
+  /**
+   * Minimum amount, inclusive, in the limit's currency (number = BRL major
+   * units). Amounts in another currency don't match.
+   */
+  minAmount?: number | Money;
+
+  /**
+   * Maximum amount, inclusive, in the limit's currency (number = BRL major
+   * units). Amounts in another currency don't match.
+   */
+  maxAmount?: number | Money;
+
+  /** Minimum installment count, inclusive */
+  minInstallments?: number;
+
+  /** Maximum installment count, inclusive */
+  maxInstallments?: number;
+}
+
+/**
+ * Risk signal collection options
+ */
+export interface RiskCollectionConfig {
+  /** Record typing cadence on the SDK's native card forms (default: true) */
+  typingCadence?: boolean;
+
+  /** Include the active PSP's device session id, e.g. MercadoPago's (default: true) */
+  pspDeviceId?: boolean;
+
+  /**
+   * Device ids from other antifraud SDKs, keyed by name
+   * (e.g. { konduto: () => window.Konduto?.getVisitorID() }). The signal is
+   * aborted when `deviceIdTimeoutMs` elapses
+   */
+  deviceIdProviders?: Record<string, (signal: AbortSignal) => string | undefined | Promise<string | undefined>>;
+
+  /** Time to wait for each device id (default: 3000ms) */
+  deviceIdTimeoutMs?: number;
+}
+
+/**
+ * Pinned ECDSA P-256 public key used to verify merchant encryption keys
+ */
+export interface PinnedKey {
+  /** Root key id (matched against the key response's `signingKeyId`) */
+  keyId: string;
+
+  /** Base64 SPKI public key */
+  publicKey: string;
+}
+
+/**
+ * ISO 4217 currencies supported by the SDK (BRL plus the LatAm currencies MercadoPago operates in)
+ */
+export type CurrencyCode = 'BRL' | 'ARS' | 'MXN' | 'CLP' | 'COP' | 'USD';
+
+/**
+ * Monetary amount in integer minor units (e.g. { amount: 1050, currency: 'BRL' } = R$ 10,50)
+ */
+export interface Money {
+  /** Amount in minor units (centavos); CLP has no minor unit */
+  amount: number;
+
+  /** ISO 4217 currency code */
+  currency: CurrencyCode;
+}
+
 /**
  * Card Payment Form Configuration
  */
 export interface CardPaymentConfig {
-  /** Payment amount in BRL */
-  amount: number;
+  /** Form id, unique within the KairosPayments instance (default: generated) */
+  id?: string;
+
+  /** Payment amount: Money, or a number in BRL major units (e.g. 100.50) */
+  amount: number | Money;
 
   /** Maximum installments allowed (default: 12) */
   maxInstallments?: number;
@@ -37,6 +214,15 @@ export interface CardPaymentConfig {
   /** Show installment selector (default: true) */
   showInstallments?: boolean;
 
+  /** Local installment rules, used when the Kairos installments endpoint is unavailable */
+  installmentRules?: InstallmentRules;
+
+  /**
+   * Render card number, expiry and CVV in Kairos-origin iframes (Kairos encryption only).
+   * Card data is encrypted inside the frames and never reachable from the page.
+   */
+  hostedFields?: boolean;
+
   /** Custom styles for the form */
   styles?: CardPaymentStyles;
 
@@ -51,6 +237,164 @@ export interface CardPaymentConfig {
 
   /** Callback when form values change */
   onChange?: (state: FormState) => void;
+
+  /** Callback when installment options are loaded for the BIN and amount (native forms) */
+  onInstallmentsLoaded?: (installments: InstallmentOption[]) => void;
+
+  /** Callback when the form is re-rendered (e.g. MercadoPago Brick rebuilt after updateAmount) */
+  onRerender?: () => void;
+
+  /**
+   * Tokenize the card data collected by the form instead of the adapter
+   * (used by routing rules; honored by forms that collect the card data
+   * in the page, see `PspAdapter.supportsRouting`)
+   */
+  tokenize?: (cardData: CardData) => Promise<PaymentData>;
+
+  /** EMV 3-D Secure 2 authentication, run after tokenization and before `onSubmit` */
+  threeDSecure?: ThreeDSecureConfig;
+
+  /** Callback when the issuer requires a 3DS challenge (before it is displayed) */
+  onChallengeStart?: () => void;
+
+  /** Callback when 3DS authentication succeeds (frictionless or after a challenge) */
+  onAuthenticated?: (result: ThreeDSecureResult) => void;
+
+  /** Callback when 3DS authentication fails, is cancelled or times out */
+  onAuthenticationFailed?: (error: PaymentError, result?: ThreeDSecureResult) => void;
+}
+
+/**
+ * 3DS challenge window size (EMV `challengeWindowSize`):
+ * '01' 250x400, '02' 390x400, '03' 500x600, '04' 600x400, '05' full container
+ */
+export type ChallengeWindowSize = '01' | '02' | '03' | '04' | '05';
+
+/**
+ * EMV 3DS transaction status: Y authenticated, A attempted, N not authenticated,
+ * R rejected, U unavailable, C challenge required
+ */
+export type ThreeDSTransStatus = 'Y' | 'A' | 'N' | 'R' | 'U' | 'C';
+
+/**
+ * Browser data for the 3DS AReq (EMV 3DS field names)
+ */
+export interface ThreeDSBrowserData {
+  browserAcceptHeader: string;
+  browserColorDepth: string;
+  browserJavaEnabled: boolean;
+  browserJavascriptEnabled: boolean;
+  browserLanguage: string;
+  browserScreenHeight: string;
+  browserScreenWidth: string;
+  browserTZ: string;
+  browserUserAgent: string;
+  challengeWindowSize: ChallengeWindowSize;
+}
+
+/**
+ * 3-D Secure configuration.
+ *
+ * The SDK holds no credentials, so the calls to the 3DS server go through
+ * your backend (which proxies them to Kairos); the SDK runs the browser side
+ * (device data, method URL, challenge).
+ */
+export interface ThreeDSecureConfig {
+  /** Start a 3DS transaction (versioning). Returns the 3DS Method URL when the ACS has one. */
+  prepare: (request: ThreeDSPrepareRequest) => Promise<ThreeDSPrepareResponse>;
+
+  /** Send the AReq. Returns the result (frictionless) or a challenge to display. */
+  authenticate: (request: ThreeDSAuthenticateRequest) => Promise<ThreeDSAuthenticateResponse>;
+
+  /** Fetch the final result after a challenge */
+  getResult: (transactionId: string) => Promise<ThreeDSecureResult>;
+
+  /** Where the challenge is displayed: inside the payment container or in a modal (default: 'modal') */
+  challengeMode?: 'inline' | 'modal';
+
+  /** Challenge window size (default: '05' inline, '02' modal) */
+  challengeWindowSize?: ChallengeWindowSize;
+
+  /** Fail when the issuer can't authenticate (transStatus U) instead of proceeding (default: false) */
+  requireAuthentication?: boolean;
+
+  /** Time to wait for the 3DS Method to complete (default: 10000ms, the EMV maximum) */
+  methodTimeoutMs?: number;
+
+  /** Time to wait for the cardholder to complete the challenge (default: 600000ms) */
+  challengeTimeoutMs?: number;
+}
+
+export interface ThreeDSPrepareRequest {
+  /** Tokenized/encrypted card, as it will be sent to `onSubmit` */
+  paymentData: PaymentData;
+  amount: Money;
+}
+
+export interface ThreeDSPrepareResponse {
+  /** 3DS Server transaction id */
+  transactionId: string;
+
+  /** ACS 3DS Method URL (omitted when the ACS has none) */
+  methodUrl?: string;
+
+  /**
+   * URL the ACS notifies when the 3DS Method completes. The page must post
+   * `{ ns: 'kairos-3ds', type: 'methodComplete' }` to its parent.
+   */
+  methodNotificationUrl?: string;
+}
+
+export interface ThreeDSAuthenticateRequest {
+  transactionId: string;
+
+  /** 3DS Method completion indicator: Y completed, N timed out, U no method URL */
+  methodCompletion: 'Y' | 'N' | 'U';
+
+  browser: ThreeDSBrowserData;
+  paymentData: PaymentData;
+  amount: Money;
+}
+
+export interface ThreeDSAuthenticateResponse {
+  transStatus: ThreeDSTransStatus;
+
+  /** Final result (frictionless flow: transStatus other than C) */
+  result?: ThreeDSecureResult;
+
+  /** Challenge data (transStatus C) */
+  challenge?: {
+    /** ACS URL the CReq is posted to */
+    acsUrl: string;
+
+    /** Base64url-encoded CReq */
+    creq: string;
+  };
+}
+
+/**
+ * 3-D Secure authentication result, attached to `PaymentData.threeDSecure`
+ */
+export interface ThreeDSecureResult {
+  /** 3DS Server transaction id */
+  transactionId: string;
+
+  /** Directory Server transaction id */
+  dsTransactionId?: string;
+
+  transStatus: ThreeDSTransStatus;
+
+  /** Electronic Commerce Indicator */
+  eci?: string;
+
+  /** Cardholder Authentication Verification Value (authenticationValue) */
+  cavv?: string;
+
+  /** Protocol version (e.g. '2.2.0') */
+  version?: string;
+
+  /** Whether the cardholder went through a challenge */
+  challenged: boolean;
 }
 
 /**
@@ -100,6 +444,101 @@ export interface PaymentData {
 
   /** PSP provider used */
   provider: string;
+
+  /** 3-D Secure result (when `CardPaymentConfig.threeDSecure` is configured) */
+  threeDSecure?: ThreeDSecureResult;
+
+  /** Device and browser signals (when `KairosConfig.riskCollection` is enabled) */
+  riskContext?: RiskContext;
+}
+
+/**
+ * Device and browser signals for antifraud, attached to `PaymentData.riskContext`
+ */
+export interface RiskContext {
+  /** Random id persisted in the browser (localStorage), stable across visits */
+  deviceId: string;
+
+  /** Random id for the current page session */
+  sessionId: string;
+
+  /** IANA timezone (e.g. 'America/Sao_Paulo') */
+  timezone: string;
+
+  /** Minutes from UTC, as returned by `Date.getTimezoneOffset` */
+  timezoneOffset: number;
+
+  screen: {
+    width: number;
+    height: number;
+    colorDepth: number;
+    pixelRatio: number;
+  };
+
+  language: string;
+  languages: string[];
+  userAgent: string;
+
+  /** User-Agent Client Hints (Chromium-based browsers only) */
+  userAgentHints?: {
+    brands: { brand: string; version: string }[];
+    mobile: boolean;
+    platform: string;
+    platformVersion?: string;
+    model?: string;
+  };
+
+  /** Keystroke timing on the card form (no key values are recorded) */
+  typing?: TypingCadence;
+
+  /** Device ids from the PSP and other antifraud SDKs (e.g. { MERCADOPAGO: '...' }) */
+  deviceIds: Record<string, string>;
+
+  /** ISO 8601 timestamp */
+  collectedAt: string;
+}
+
+export interface TypingCadence {
+  keystrokes: number;
+
+  /** Mean / standard deviation of the interval between keystrokes (ms) */
+  meanIntervalMs: number;
+  stdDevIntervalMs: number;
+
+  /** Time from the first to the last keystroke (ms) */
+  durationMs: number;
+
+  /** Content was pasted into a field */
+  pasted: boolean;
+}
+
+/**
+ * Raw card fields for headless tokenization (`KairosPayments.tokenizeCard`)
+ */
+export interface CardData {
+  /** Card number (spaces and dashes are ignored) */
+  number: string;
+
+  /** Cardholder name as printed on the card */
+  holderName: string;
+
+  /** Expiration month ('MM') */
+  expirationMonth: string;
+
+  /** Expiration year ('YY' or 'YYYY') */
+  expirationYear: string;
+
+  /** Security code */
+  cvv: string;
+
+  /** Selected installments (default: 1) */
+  installments?: number;
+
+  /** Payer document, required by MercadoPago in some countries (e.g. { type: 'CPF', number: '...' }) */
+  identification?: {
+    type: string;
+    number: string;
+  };
 }
 
 /**
@@ -109,12 +548,18 @@ export interface InstallmentOption {
   /** Number of installments */
   installments: number;
 
-  /** Amount per installment */
+  /** Amount per installment (major units) */
   installmentAmount: number;
 
-  /** Total amount with interest */
+  /** Total amount with interest (major units) */
   totalAmount: number;
 
+  /** Amount per installment; any remainder cents are charged on the first installment */
+  installmentMoney: Money;
+
+  /** Total amount with interest */
+  totalMoney: Money;
+
   /** Whether it's interest-free */
   interestFree: boolean;
 
@@ -125,16 +570,39 @@ export interface InstallmentOption {
   recommended?: boolean;
 }
 
+/**
+ * Installment Rules (local fallback for installment plans)
+ */
+export interface InstallmentRules {
+  /** Maximum number of installments (default: 12) */
+  maxInstallments?: number;
+
+  /** Installments offered without interest (default: 3) */
+  interestFreeInstallments?: number;
+
+  /** Monthly interest rate in percent, compounded (default: 1.99) */
+  monthlyInterestRate?: number;
+
+  /** Minimum amount per installment, in major units of the payment currency (default: 5) */
+  minInstallmentAmount?: number;
+}
+
 /**
  * Payment Error
  */
 export interface PaymentError {
-  /** Error code */
+  /** Error code (see `ErrorCode`) */
   code: string;
 
-  /** Human-readable message */
+  /** Human-readable message (may be the PSP's; see `getErrorMessage` for the customer-facing one) */
   message: string;
 
+  /** validation, network, provider, security or configuration (default: the code's) */
+  category?: ErrorCategory;
+
+  /** Whether retrying the operation can succeed (default: the code's) */
+  retryable?: boolean;
+
   /** Field with error (if applicable) */
   field?: string;
 
@@ -155,11 +623,14 @@ export interface FormState {
   /** Current errors */
   errors: Record<string, string>;
 
-  /** Card BIN (first 6 digits) */
+  /** Card BIN: the first 6 digits, 8 once the number is complete (16+ digit cards) */
   bin?: string;
 
   /** Detected card brand */
   cardBrand?: string;
+
+  /** Provider the routing rules pick for the card entered so far */
+  provider?: string;
 }
 
 /**
@@ -168,6 +639,7 @@ export interface FormState {
 export interface TokenizationOptions {
   tenantId: string;
   options: TokenizationOption[];
+  routingRules?: RoutingRule[];
 }
 
 export interface TokenizationOption {
@@ -186,6 +658,11 @@ export interface SdkInfo {
   documentation?: string;
 }
 
+/**
+ * Creates a new, uninitialized adapter (see `KairosPayments.registerAdapter`)
+ */
+export type AdapterFactory = () => PspAdapter;
+
 /**
  * PSP Adapter Interface
  * Each PSP (MercadoPago, PagSeguro, etc.) implements this interface
@@ -203,8 +680,26 @@ export interface PspAdapter {
     config: CardPaymentConfig
   ): Promise<CardPaymentInstance>;
 
-  /** Get installment options for a given amount and BIN */
-  getInstallments(amount: number, bin: string): Promise<InstallmentOption[]>;
+  /**
+   * Tokenize/encrypt raw card data without rendering a form.
+   * Rejects with a `KairosPaymentError`.
+   */
+  tokenizeCard(cardData: CardData): Promise<PaymentData>;
+
+  /** Get installment options for a given amount (number = BRL major units) and BIN */
+  getInstallments(amount: number | Money, bin: string): Promise<InstallmentOption[]>;
+
+  /**
+   * Whether the form built for `config` tokenizes through
+   * `CardPaymentConfig.tokenize` (required for routing rules)
+   */
+  supportsRouting?(config: CardPaymentConfig): boolean;
+
+  /**
+   * PSP device session id for antifraud, when the PSP has one (used by `riskCollection`).
+   * Stop waiting for it when `signal` is aborted
+   */
+  getDeviceSessionId?(signal?: AbortSignal): Promise<string | undefined>;
 
   /** Destroy and cleanup */
   destroy(): void;
@@ -214,12 +709,67 @@ export interface PspAdapter {
  * Card Payment Instance (returned by createCardPayment)
  */
 export interface CardPaymentInstance {
-  /** Update the payment amount */
-  updateAmount(amount: number): void;
-
-  /** Submit the form programmatically */
+  /** Update the payment amount (number = BRL major units) */
+  updateAmount(amount: number | Money): void;
+
+  /**
+   * Submit the form programmatically: validates, tokenizes/encrypts, invokes
+   * `onSubmit` and resolves with the PaymentData. Rejects with a
+   * `KairosPaymentError` (also reported through `onError`).
+   */
   submit(): Promise<PaymentData>;
 
   /** Unmount and cleanup */
   unmount(): void;
 }
+
+/**
+ * Card payment form managed by `KairosPayments.createCardPayment`
+ */
+export interface CardPaymentHandle extends CardPaymentInstance {
+  /** Form id (`CardPaymentConfig.id` or generated) */
+  readonly id: string;
+
+  /** Subscribe to this form's events. Returns a function that unsubscribes */
+  on<K extends keyof KairosEventMap>(event: K, listener: (payload: KairosEventMap[K]) => void): () => void;
+
+  /** Subscribe to the next occurrence of an event only */
+  once<K extends keyof KairosEventMap>(event: K, listener: (payload: KairosEventMap[K]) => void): () => void;
+
+  /** Remove a listener added with `on` or `once` */
+  off<K extends keyof KairosEventMap>(event: K, listener: (payload: KairosEventMap[K]) => void): void;
+}
+
+/**
+ * Events emitted by card payment forms (`CardPaymentHandle.on`) and, for
+ * every form plus `tokenizeCard`, by the SDK instance (`KairosPayments.on`).
+ * `formId` is absent for `tokenizeCard`.
+ */
+export interface KairosEventMap {
+  /** A form was mounted on a provider (again after a failover) */
+  providerSelected: { formId?: string; provider: string };
+
+  /** The form is ready for input */
+  ready: { formId?: string; provider: string };
+
+  /** Form values changed */
+  change: { formId?: string; state: FormState };
+
+  /** The card brand was detected (or changed) from the BIN */
+  brandDetected: { formId?: string; brand: string; bin?: string };
+
+  /** Installment options were loaded for the BIN and amount (native forms) */
+  installmentsLoaded: { formId?: string; installments: InstallmentOption[] };
+
+  /** The customer (or `submit()`) started a payment submission */
+  submitStart: { formId?: string };
+
+  /** The card was tokenized (and authenticated, with 3DS); about to be handed to `onSubmit` */
+  tokenized: { formId?: string; provider: string; paymentData: PaymentData };
+
+  /** An error was reported */
+  error: { formId?: string; error: PaymentError };
+
+  /** The form was unmounted */
+  unmounted: { formId?: string };
+}
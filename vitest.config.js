@@ -0,0 +1,11 @@
+import { defineConfig } from 'vitest/config';
+
+// Unit tests sit next to their modules. They run in Node; tests that need a
+// DOM (masks, components, card forms, 3DS frames) opt into jsdom with a
+// `// @vitest-environment jsdom` comment at the top of the file.
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+    environment: 'node'
+  }
+});